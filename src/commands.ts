@@ -10,19 +10,41 @@ export function registerCommands(pi: ExtensionAPI, runtime: PiJjRuntime) {
   });
 
   pi.registerCommand("jj-deinit", {
-    description: "Remove jj metadata from current repo (usage: /jj-deinit [full])",
+    description: "Remove jj metadata from current repo (usage: /jj-deinit [full] [--remove-checkpoint-refs])",
     handler: async (args, ctx) => {
       await runtime.commandJjDeinit(args, ctx);
     },
   });
 
   pi.registerCommand("jj-checkpoints", {
-    description: "Checkpoint UI (usage: /jj-checkpoints [plain])",
+    description:
+      "Checkpoint UI (usage: /jj-checkpoints [plain] [--changed] | all [plain] | diff [entry] [entry] [--stat] | turn-diff [entry] [--stat] | find <query> [--since 2h] | verify [--hide-dead] | compact | export <file> [entry...] | import <file> | bisect <command>)",
     handler: async (args, ctx) => {
       await runtime.commandJjCheckpoints(args, ctx);
     },
   });
 
+  pi.registerCommand("jj-checkpoint-pin", {
+    description: "Pin and name a checkpoint so pruning never drops it (usage: /jj-checkpoint-pin [name])",
+    handler: async (args, ctx) => {
+      await runtime.commandJjCheckpointPin(args, ctx);
+    },
+  });
+
+  pi.registerCommand("jj-undo", {
+    description: "Undo checkpoint restores/rewinds (usage: /jj-undo [n|list])",
+    handler: async (args, ctx) => {
+      await runtime.commandJjUndo(args, ctx);
+    },
+  });
+
+  pi.registerCommand("jj-redo", {
+    description: "Redo undone checkpoint restores/rewinds (usage: /jj-redo [n|list])",
+    handler: async (args, ctx) => {
+      await runtime.commandJjRedo(args, ctx);
+    },
+  });
+
   pi.registerCommand("jj-stack-status", {
     description: "Show stack status (interactive UI; usage: /jj-stack-status [plain])",
     handler: async (args, ctx) => {
@@ -10,8 +10,12 @@ export function registerEvents(pi: ExtensionAPI, runtime: PiJjRuntime) {
     await runtime.handleSessionSwitch(ctx);
   });
 
-  pi.on("before_agent_start", async (_event, ctx) => {
-    await runtime.handleBeforeAgentStart(ctx);
+  pi.on("session_fork", async (_event, ctx) => {
+    await runtime.handleSessionFork(ctx);
+  });
+
+  pi.on("before_agent_start", async (event, ctx) => {
+    return runtime.handleBeforeAgentStart(event, ctx);
   });
 
   pi.on("turn_start", async (event) => {
@@ -22,6 +26,18 @@ export function registerEvents(pi: ExtensionAPI, runtime: PiJjRuntime) {
     await runtime.handleTurnEnd(event, ctx);
   });
 
+  pi.on("agent_end", async (_event, ctx) => {
+    await runtime.handleAgentEnd(ctx);
+  });
+
+  pi.on("tool_call", async (event, ctx) => {
+    return runtime.handleToolCall(event, ctx);
+  });
+
+  pi.on("tool_result", async (event, ctx) => {
+    runtime.handleToolResult(event, ctx);
+  });
+
   pi.on("session_before_fork", async (event, ctx) => {
     return runtime.handleSessionBeforeFork(event, ctx);
   });
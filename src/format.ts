@@ -1,4 +1,4 @@
-import type { Checkpoint } from "./types";
+import type { Checkpoint, CheckpointStats, CheckpointValidity, RewindRecord, ToolSnapshot } from "./types";
 
 export function formatAge(timestamp: number): string {
   const deltaSec = Math.max(0, Math.floor((Date.now() - timestamp) / 1000));
@@ -11,8 +11,49 @@ export function formatAge(timestamp: number): string {
   return `${deltaDay}d ago`;
 }
 
-export function checkpointLine(checkpoint: Checkpoint): string {
+export function checkpointStatsLine(stats: CheckpointStats): string {
+  const conflicts =
+    stats.conflictsIntroduced || stats.conflictsResolved
+      ? ` conflicts:+${stats.conflictsIntroduced}/-${stats.conflictsResolved}`
+      : "";
+  return `${stats.files} file${stats.files === 1 ? "" : "s"} +${stats.added} -${stats.removed}${conflicts}`;
+}
+
+export function checkpointLine(checkpoint: Checkpoint, validity?: CheckpointValidity): string {
   const change = checkpoint.changeIdShort ? `chg:${checkpoint.changeIdShort}` : "chg:-";
   const op = checkpoint.operationIdShort ? `op:${checkpoint.operationIdShort}` : "op:-";
-  return `${checkpoint.entryId.slice(0, 8)}  rev:${checkpoint.revision.slice(0, 12)}  ${change}  ${op}  ${formatAge(checkpoint.timestamp)}`;
+  const turn = checkpoint.turnIndex !== undefined && checkpoint.promptEntryId ? `  turn:${checkpoint.turnIndex}` : "";
+  const pin = checkpoint.pinned ? `[pin${checkpoint.pinName ? `: ${checkpoint.pinName}` : ""}]  ` : "";
+  const imported = checkpoint.imported ? `  [imported ${checkpoint.imported.bundleId}]` : "";
+  const stats = checkpoint.stats ? `  ${checkpointStatsLine(checkpoint.stats)}` : "";
+  const userEditCount = (checkpoint.userEdits?.paths.length ?? 0) + (checkpoint.turnUserEdits?.paths.length ?? 0);
+  const userEdits = userEditCount > 0 ? `  user-edits:${userEditCount}` : "";
+  const status = validity ? `  [${validity}]` : "";
+  return `${pin}${checkpoint.entryId.slice(0, 8)}  rev:${checkpoint.revision.slice(0, 12)}  ${change}  ${op}${turn}${stats}${userEdits}  ${formatAge(checkpoint.timestamp)}${imported}${status}`;
+}
+
+export function toolSnapshotLine(snapshot: ToolSnapshot): string {
+  return `    ↳ before ${snapshot.toolName}: ${snapshot.summary}  rev:${snapshot.revision.slice(0, 12)}  op:${snapshot.operationIdShort}  ${formatAge(snapshot.timestamp)}`;
+}
+
+export function rewindLine(record: RewindRecord): string {
+  return `${record.label}  op:${record.beforeOperationIdShort} → op:${record.afterOperationIdShort}  ${formatAge(record.timestamp)}`;
+}
+
+export function truncateLines(text: string, maxLines: number): string {
+  const lines = text.split("\n");
+  if (lines.length <= maxLines) return text;
+  return [...lines.slice(0, maxLines), `... (${lines.length - maxLines} more lines)`].join("\n");
+}
+
+export function promptSnippet(text: string, maxLength = 60): string {
+  const line = text.split("\n").find((l) => l.trim())?.trim() ?? "";
+  return line.length > maxLength ? `${line.slice(0, maxLength - 1)}…` : line;
+}
+
+export function descriptionFromPrompt(text: string): string {
+  const title = promptSnippet(text, 72) || "pi-jj prompt";
+  const body = text.trim();
+  if (!body || body === title) return title;
+  return `${title}\n\n${body.length > 2000 ? `${body.slice(0, 2000)}…` : body}`;
 }
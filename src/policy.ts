@@ -0,0 +1,29 @@
+import type { CommandPolicyRule } from "./types";
+
+// Evaluated after user rules. The first matching rule wins, so list narrow allows before broad denies.
+export const DEFAULT_COMMAND_POLICY: CommandPolicyRule[] = [
+  { pattern: "\\bjj\\s+op(eration)?\\s+abandon\\b", action: "deny", reason: "abandons operations that checkpoints restore to" },
+  { pattern: "\\bjj\\s+util\\s+gc\\b", action: "deny", reason: "garbage-collects unreachable checkpoint revisions" },
+  { pattern: "refs/pi-jj/", action: "deny", reason: "touches pi-jj checkpoint refs" },
+  { pattern: "\\bjj\\s+op(eration)?\\s+restore\\b", action: "confirm", reason: "rewinds the whole repo to an earlier operation" },
+  { pattern: "\\bjj\\s+abandon\\b", action: "confirm", reason: "abandons changes" },
+  { pattern: "\\bjj\\s+git\\s+push\\b.*\\s(--all|--deleted|--allow-new)\\b", action: "confirm", reason: "pushes or deletes many remote bookmarks" },
+  { pattern: "\\bjj\\s+bookmark\\s+(delete|forget)\\b", action: "confirm", reason: "deletes bookmarks (remote ones on next push)" },
+  { pattern: "\\bgit\\s+push\\b.*\\s(--force|-f|--force-with-lease|--mirror|--delete|-d)\\b", action: "confirm", reason: "rewrites or deletes remote branches" },
+  { pattern: "\\bgit\\s+push\\b.*\\s\\+\\S", action: "confirm", reason: "force-pushes a refspec" },
+  { pattern: "\\bgit\\s+reset\\s+--hard\\b", action: "confirm", reason: "discards working-copy changes" },
+  { pattern: "\\bgit\\s+clean\\s+-\\w*f", action: "confirm", reason: "deletes untracked files" },
+  { pattern: "\\bgit\\s+(reflog\\s+expire|gc\\b.*--prune)", action: "confirm", reason: "prunes unreachable commits" },
+];
+
+function ruleMatches(rule: CommandPolicyRule, command: string): boolean {
+  try {
+    return new RegExp(rule.pattern, "i").test(command);
+  } catch {
+    return command.toLowerCase().includes(rule.pattern.toLowerCase());
+  }
+}
+
+export function matchCommandPolicy(command: string, rules: CommandPolicyRule[]): CommandPolicyRule | null {
+  return rules.find((rule) => ruleMatches(rule, command)) ?? null;
+}
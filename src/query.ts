@@ -0,0 +1,297 @@
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import {
+  QUERY_DEFAULT_LIMIT,
+  QUERY_MAX_LIMIT,
+  QUERY_MAX_OUTPUT_CHARS,
+  type JjBookmarkEntry,
+  type JjEvologEntry,
+  type JjFileChange,
+  type JjLogEntry,
+  type JjOperationEntry,
+  type JjQueryResult,
+} from "./types";
+import type { JjQueryInput } from "./schemas";
+
+const FIELD = ' ++ "\\t" ++ ';
+const TIMESTAMP_FORMAT = '"%Y-%m-%dT%H:%M:%S%:z"';
+
+// Fields are tab-separated with the description last, so tabs inside it survive the split.
+// evolog entries wrap the commit, so their keywords need the `commit.` prefix and method-call syntax.
+function commitTemplate(prefix: "" | "commit." = ""): string {
+  const kw = (name: string) => (prefix ? `${prefix}${name}()` : name);
+  return [
+    kw("change_id"),
+    `${kw("change_id")}.short()`,
+    kw("commit_id"),
+    `${kw("commit_id")}.short()`,
+    `${kw("author")}.name()`,
+    `${kw("author")}.email()`,
+    `${kw("author")}.timestamp().format(${TIMESTAMP_FORMAT})`,
+    `${kw("parents")}.map(|c| c.change_id().short()).join(",")`,
+    `${kw("local_bookmarks")}.map(|b| b.name()).join(",")`,
+    `if(${kw("current_working_copy")}, "1", "0")`,
+    `if(${kw("empty")}, "1", "0")`,
+    `if(${kw("immutable")}, "1", "0")`,
+    `if(${kw("conflict")}, "1", "0")`,
+    `${kw("description")}.first_line()`,
+  ].join(FIELD);
+}
+
+const LOG_TEMPLATE = `${commitTemplate()} ++ "\\n"`;
+const EVOLOG_TEMPLATE = `if(operation, operation.id().short(), "")${FIELD}${commitTemplate("commit.")} ++ "\\n"`;
+const OP_LOG_TEMPLATE =
+  [
+    "id",
+    "id.short()",
+    `time.start().format(${TIMESTAMP_FORMAT})`,
+    "user",
+    'if(current_operation, "1", "0")',
+    "description.first_line()",
+  ].join(FIELD) + ' ++ "\\n"';
+const BOOKMARK_TEMPLATE =
+  [
+    "name",
+    'if(remote, remote, "")',
+    'if(normal_target, normal_target.change_id().short(), "")',
+    'if(normal_target, normal_target.commit_id().short(), "")',
+    'if(conflict, "1", "0")',
+    'if(tracked, "1", "0")',
+  ].join(FIELD) + ' ++ "\\n"';
+
+function splitList(value: string): string[] {
+  return value.split(",").filter(Boolean);
+}
+
+function parseLogFields(parts: string[]): JjLogEntry | null {
+  if (parts.length < 14) return null;
+  const [changeId, changeIdShort, commitId, commitIdShort, name, email, timestamp, parents, bookmarks, ...rest] = parts;
+  const [workingCopy, empty, immutable, conflict, ...desc] = rest;
+  if (!changeId || !commitId) return null;
+
+  return {
+    changeId,
+    changeIdShort: changeIdShort ?? changeId.slice(0, 12),
+    commitId,
+    commitIdShort: commitIdShort ?? commitId.slice(0, 12),
+    author: { name: name ?? "", email: email ?? "", timestamp: timestamp ?? "" },
+    parents: splitList(parents ?? ""),
+    bookmarks: splitList(bookmarks ?? ""),
+    workingCopy: workingCopy === "1",
+    empty: empty === "1",
+    immutable: immutable === "1",
+    conflict: conflict === "1",
+    description: desc.join("\t"),
+  };
+}
+
+function lines(output: string): string[] {
+  return output.split("\n").filter((line) => line.trim() !== "");
+}
+
+function filesetArgs(paths?: string[]): string[] {
+  return (paths ?? []).map((path) => `file:"${path.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`);
+}
+
+function clampLimit(limit?: number): number {
+  const value = Number(limit);
+  if (!Number.isFinite(value)) return QUERY_DEFAULT_LIMIT;
+  return Math.max(1, Math.min(QUERY_MAX_LIMIT, Math.floor(value)));
+}
+
+// Revisions are passed as separate argv entries, but a leading "-" would still be parsed as a flag.
+function revisionArg(value: string | undefined, fallback: string): string {
+  const revision = (value ?? "").trim() || fallback;
+  if (revision.startsWith("-")) throw new Error(`Invalid revision or revset: ${revision}`);
+  return revision;
+}
+
+function capOutput(output: string): { output: string; truncated: boolean } {
+  if (output.length <= QUERY_MAX_OUTPUT_CHARS) return { output, truncated: false };
+  return { output: `${output.slice(0, QUERY_MAX_OUTPUT_CHARS)}\n... (truncated)`, truncated: true };
+}
+
+export function createJjQuery(pi: ExtensionAPI) {
+  async function jj(args: string[], ignoreWorkingCopy: boolean): Promise<string> {
+    const fullArgs = [...(ignoreWorkingCopy ? ["--ignore-working-copy"] : []), ...args];
+    const result = await pi.exec("jj", fullArgs);
+    if (result.code !== 0) {
+      throw new Error(result.stderr?.trim() || `jj ${fullArgs.join(" ")} failed`);
+    }
+    return result.stdout;
+  }
+
+  async function logEntries(revset: string, limit: number, ignoreWorkingCopy: boolean) {
+    // Ask for one extra entry so truncation can be reported without counting the whole revset.
+    const output = await jj(
+      ["log", "-r", revset, "--no-graph", "-n", String(limit + 1), "-T", LOG_TEMPLATE],
+      ignoreWorkingCopy,
+    );
+    const entries = lines(output)
+      .map((line) => parseLogFields(line.split("\t")))
+      .filter((entry): entry is JjLogEntry => entry !== null);
+    return { entries: entries.slice(0, limit), truncated: entries.length > limit };
+  }
+
+  async function fileChanges(
+    args: string[],
+    paths: string[] | undefined,
+    ignoreWorkingCopy: boolean,
+  ): Promise<JjFileChange[]> {
+    const output = await jj(["diff", ...args, "--summary", ...filesetArgs(paths)], ignoreWorkingCopy);
+    return lines(output).map((line) => {
+      const match = /^(\S)\s+(.*)$/.exec(line.trim());
+      return match ? { status: match[1]!, path: match[2]! } : { status: "?", path: line.trim() };
+    });
+  }
+
+  async function run(input: JjQueryInput): Promise<JjQueryResult> {
+    const ignoreWorkingCopy = input.ignoreWorkingCopy !== false;
+    const limit = clampLimit(input.limit);
+
+    if (input.action === "log") {
+      const revset = revisionArg(input.revset, "(ancestors(@) | descendants(@)) & mutable()");
+      const { entries, truncated } = await logEntries(revset, limit, ignoreWorkingCopy);
+      return { action: "log", revset, entries, truncated };
+    }
+
+    if (input.action === "show") {
+      const revision = revisionArg(input.revision ?? input.revset, "@");
+      const { entries } = await logEntries(revision, 1, ignoreWorkingCopy);
+      const entry = entries[0];
+      if (!entry) throw new Error(`No revision matches ${revision}`);
+
+      const fullDescription = await jj(
+        ["log", "-r", entry.commitId, "--no-graph", "-T", "description"],
+        ignoreWorkingCopy,
+      );
+      const files = await fileChanges(["-r", entry.commitId], input.paths, ignoreWorkingCopy);
+      return {
+        action: "show",
+        entry,
+        fullDescription: fullDescription.trimEnd(),
+        files: files.slice(0, QUERY_MAX_LIMIT),
+        truncated: files.length > QUERY_MAX_LIMIT,
+      };
+    }
+
+    if (input.action === "diff") {
+      const range =
+        input.from || input.to
+          ? { from: revisionArg(input.from, "@-"), to: revisionArg(input.to, "@") }
+          : { revision: revisionArg(input.revision, "@") };
+      const rangeArgs = "revision" in range ? ["-r", range.revision!] : ["--from", range.from, "--to", range.to];
+
+      const files = await fileChanges(rangeArgs, input.paths, ignoreWorkingCopy);
+      const format = input.format ?? "git";
+      if (format === "summary") {
+        return {
+          action: "diff",
+          ...range,
+          files: files.slice(0, QUERY_MAX_LIMIT),
+          truncated: files.length > QUERY_MAX_LIMIT,
+        };
+      }
+
+      const output = await jj(
+        ["diff", ...rangeArgs, format === "stat" ? "--stat" : "--git", ...filesetArgs(input.paths)],
+        ignoreWorkingCopy,
+      );
+      const capped = capOutput(output.trimEnd());
+      return {
+        action: "diff",
+        ...range,
+        files: files.slice(0, QUERY_MAX_LIMIT),
+        output: capped.output,
+        truncated: capped.truncated || files.length > QUERY_MAX_LIMIT,
+      };
+    }
+
+    if (input.action === "op-log") {
+      const output = await jj(
+        ["op", "log", "--no-graph", "-n", String(limit + 1), "-T", OP_LOG_TEMPLATE],
+        ignoreWorkingCopy,
+      );
+      const operations = lines(output).flatMap((line): JjOperationEntry[] => {
+        const [id, idShort, time, user, current, ...desc] = line.split("\t");
+        if (!id) return [];
+        return [
+          {
+            id,
+            idShort: idShort ?? id.slice(0, 12),
+            time: time ?? "",
+            user: user ?? "",
+            current: current === "1",
+            description: desc.join("\t"),
+          },
+        ];
+      });
+      return { action: "op-log", operations: operations.slice(0, limit), truncated: operations.length > limit };
+    }
+
+    if (input.action === "evolog") {
+      const revision = revisionArg(input.revision ?? input.revset, "@");
+      const output = await jj(
+        ["evolog", "-r", revision, "--no-graph", "-n", String(limit + 1), "-T", EVOLOG_TEMPLATE],
+        ignoreWorkingCopy,
+      );
+      const entries = lines(output).flatMap((line): JjEvologEntry[] => {
+        const [operationIdShort, ...fields] = line.split("\t");
+        const entry = parseLogFields(fields);
+        return entry ? [{ ...entry, operationIdShort: operationIdShort || undefined }] : [];
+      });
+      return { action: "evolog", revision, entries: entries.slice(0, limit), truncated: entries.length > limit };
+    }
+
+    if (input.action === "bookmarks") {
+      const args = ["bookmark", "list", "-T", BOOKMARK_TEMPLATE];
+      if (input.allRemotes) args.push("--all-remotes");
+      if (input.revset) args.push("-r", revisionArg(input.revset, "@"));
+
+      const bookmarks = lines(await jj(args, ignoreWorkingCopy)).flatMap((line): JjBookmarkEntry[] => {
+        const [name, remote, changeIdShort, commitIdShort, conflict, tracked] = line.split("\t");
+        if (!name) return [];
+        return [
+          {
+            name,
+            remote: remote || undefined,
+            changeIdShort: changeIdShort || undefined,
+            commitIdShort: commitIdShort || undefined,
+            conflict: conflict === "1",
+            tracked: tracked === "1",
+          },
+        ];
+      });
+      return { action: "bookmarks", bookmarks: bookmarks.slice(0, limit), truncated: bookmarks.length > limit };
+    }
+
+    if (input.action === "conflicts") {
+      const revision = revisionArg(input.revision, "@");
+      const listed = await pi.exec("jj", [
+        ...(ignoreWorkingCopy ? ["--ignore-working-copy"] : []),
+        "resolve",
+        "--list",
+        "-r",
+        revision,
+      ]);
+      // `jj resolve --list` exits non-zero when the revision has no conflicts.
+      if (listed.code !== 0 && !/no conflicts/i.test(listed.stderr ?? "")) {
+        throw new Error(listed.stderr?.trim() || `jj resolve --list -r ${revision} failed`);
+      }
+      const paths = listed.code === 0 ? lines(listed.stdout).map((line) => line.split(/\s{2,}/)[0]!.trim()) : [];
+
+      const revset = revisionArg(input.revset, "conflicts() & mutable()");
+      const conflicted = await logEntries(revset, limit, ignoreWorkingCopy);
+      return {
+        action: "conflicts",
+        revision,
+        paths: paths.slice(0, QUERY_MAX_LIMIT),
+        conflictedChanges: conflicted.entries,
+        truncated: conflicted.truncated || paths.length > QUERY_MAX_LIMIT,
+      };
+    }
+
+    throw new Error(`Unsupported query action: ${String((input as { action?: unknown }).action)}`);
+  }
+
+  return { run };
+}
@@ -1,15 +1,70 @@
-import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
-import { rm } from "node:fs/promises";
-import { join } from "node:path";
-import { checkpointLine, formatAge } from "./format";
+import type { ExtensionAPI, ExtensionContext, SessionEntry } from "@mariozechner/pi-coding-agent";
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdtemp, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, join, resolve } from "node:path";
+import { checkpointLine, checkpointStatsLine, toolSnapshotLine, descriptionFromPrompt, formatAge, promptSnippet, rewindLine, truncateLines } from "./format";
+import { DEFAULT_COMMAND_POLICY, matchCommandPolicy } from "./policy";
+import type { JjEditAction, JjEditInput } from "./schemas";
 import { createSettingsStore } from "./settings";
-import { CHECKPOINT_ENTRY_TYPE, PR_STATE_ENTRY_TYPE, STATUS_KEY, type Checkpoint, type PendingCheckpoint } from "./types";
+import {
+  BISECT_COMMAND_TIMEOUT_MS,
+  CHECKPOINT_BUNDLE_FORMAT,
+  CHECKPOINT_ENTRY_TYPE,
+  CHECKPOINT_EXPORT_REF_PREFIX,
+  CHECKPOINT_HIDDEN_ENTRY_TYPE,
+  CHECKPOINT_IMPORT_BOOKMARK_PREFIX,
+  CHECKPOINT_INDEX_ENTRY_TYPE,
+  CHECKPOINT_PIN_ENTRY_TYPE,
+  CHECKPOINT_REF_PREFIX,
+  MAX_DIFF_LINES,
+  POLICY_DECISION_ENTRY_TYPE,
+  PR_STATE_ENTRY_TYPE,
+  REPO_CHECKPOINT_INDEX_FILE,
+  REWIND_ENTRY_TYPE,
+  STATUS_KEY,
+  TOOL_SNAPSHOT_ENTRY_TYPE,
+  TURN_REVERT_ENTRY_TYPE,
+  type Checkpoint,
+  type CheckpointBundle,
+  type CheckpointStats,
+  type CheckpointValidity,
+  type PendingCheckpoint,
+  type PiJjSettings,
+  type PolicyDecision,
+  type RepoCheckpointRecord,
+  type RepoCheckpointRemoval,
+  type RestoreMode,
+  type ToolSnapshot,
+  type UserEditsSnapshot,
+  type RewindRecord,
+} from "./types";
 
 type TurnEventLike = { turnIndex: number; timestamp: number };
 type TurnEndEventLike = { turnIndex: number };
+type BeforeAgentStartEventLike = { systemPrompt: string };
+type ToolCallEventLike = { toolCallId: string; toolName: string; input: Record<string, unknown> };
+type ToolResultEventLike = { toolName: string; input: Record<string, unknown>; isError: boolean };
 type ForkEventLike = { entryId: string };
 type TreeEventLike = { preparation: { targetId: string } };
 
+type DiffFormat = "git" | "stat" | "name-only";
+
+type KeptPaths = { revision: string; paths: string[] };
+
+type BisectWorkspace = { name: string; dir: string; parent: string; changes: string[] };
+
+type RestoreTarget =
+  | { mode: "file"; revision: string; keepPaths?: KeptPaths[] }
+  | { mode: "operation"; operationId: string; keepPaths?: KeptPaths[] }
+  | { mode: "paths"; revision: string; paths: string[] };
+
+type RestorePoint = {
+  checkpoint: Checkpoint;
+  revision: string;
+  phase: "pre" | "post";
+};
+
 type StackNode = {
   changeId: string;
   changeIdShort: string;
@@ -65,6 +120,8 @@ type StackStatusNodeView = {
   node: StackNode;
   prLabel: string;
   prRecord?: PrRecord;
+  promptEntryId?: string;
+  promptText?: string;
 };
 
 type StackStatusSnapshot = {
@@ -93,18 +150,131 @@ type PrPlanSnapshot = {
   summary: string;
 };
 
+export type CommandResult<T = never> = {
+  ok: boolean;
+  message: string;
+  data?: T;
+};
+
+export type StackStatusResult = {
+  revision: string;
+  change: { id: string; short: string };
+  operation: { id: string; short: string };
+  checkpointCount: number;
+  latestCheckpoint?: Checkpoint;
+  prSnapshot: PrStateSnapshot | null;
+  stack: StackStatusNodeView[];
+};
+
+export type PrPlanResult = {
+  remote: string;
+  defaultBase: string;
+  entries: PrPlanEntryView[];
+};
+
+export type PrPublishResult = {
+  remote: string;
+  dryRun: boolean;
+  draft: boolean;
+  records: PrRecord[];
+};
+
+export type PrSyncResult = {
+  remote: string;
+  defaultBase: string;
+  records: PrRecord[];
+  retargeted: string[];
+};
+
+export type StackCloseResult = {
+  remote: string;
+  dryRun: boolean;
+  branches: string[];
+  openPrs: PrRecord[];
+  deletedBookmarks: string[];
+  newChangeBase?: string;
+  errors: string[];
+};
+
+export type CheckpointListResult = {
+  total: number;
+  checkpoints: Checkpoint[];
+};
+
+export type RepoCheckpointListResult = {
+  total: number;
+  records: RepoCheckpointRecord[];
+};
+
+export type CheckpointVerifyResult = {
+  valid: number;
+  revisionOnly: number;
+  dead: string[];
+  hidden: boolean;
+};
+
+export type CheckpointTransferResult = {
+  file: string;
+  bundleId?: string;
+  checkpoints: Checkpoint[];
+};
+
+export type CheckpointBisectResult = {
+  command: string;
+  tested: number;
+  firstFailing?: Checkpoint;
+  lastPassing?: Checkpoint;
+  failureOutput?: string;
+};
+
+export type CheckpointsCommandData =
+  | CheckpointListResult
+  | RepoCheckpointListResult
+  | CheckpointVerifyResult
+  | CheckpointTransferResult
+  | CheckpointBisectResult
+  | { kept: number; removed: number };
+
+export type AgentRestoreResult = {
+  checkpoint: Checkpoint;
+  mode: RestoreMode;
+  keptUserEditPaths: number;
+};
+
+export type JjEditResult = {
+  action: JjEditAction;
+  summary: string;
+  beforeOperationId: string;
+  afterOperationId: string;
+  stack: StackNode[];
+};
+
+export type SettingsResult = {
+  settings: PiJjSettings;
+  file: string;
+};
+
 export class PiJjRuntime {
   private checkpoints = new Map<string, Checkpoint>();
+  private checkpointValidity = new Map<string, CheckpointValidity>();
+  private checkpointPathsCache = new Map<string, string[]>();
 
   private isJjRepo = false;
   private isGitRepo = false;
   private sessionId: string | null = null;
   private pendingCheckpoint: PendingCheckpoint | null = null;
+  private promptChange: { id: string; short: string } | null = null;
   private resumeCheckpointOperationId: string | null = null;
-  private lastRestoreOperationId: string | null = null;
+  private undoStack: RewindRecord[] = [];
+  private toolSnapshots: ToolSnapshot[] = [];
+  private currentTurnIndex = 0;
+  private agentWrites = new Set<string>();
+  private agentStartedAt = 0;
+  private redoStack: RewindRecord[] = [];
   private needsInitPrompt = false;
   private initPromptShown = false;
   private initInProgress = false;
+  private toolCallsInFlight = 0;
 
   private readonly settingsStore = createSettingsStore();
 
@@ -114,6 +284,32 @@ export class PiJjRuntime {
     return this.settingsStore.getSettings();
   }
 
+  private report<T = never>(
+    ctx: ExtensionContext,
+    level: "info" | "warning" | "error",
+    message: string,
+    data?: T,
+  ): CommandResult<T> {
+    this.notifyResult(ctx, message, level);
+    return { ok: level === "info", message, data };
+  }
+
+  // For text that also ends up in a CommandResult; commands that don't return through report() use it directly.
+  private notifyResult(ctx: ExtensionContext, message: string, level: "info" | "warning" | "error") {
+    if (this.toolCallsInFlight === 0) ctx.ui.notify(message, level);
+  }
+
+  // Tool calls hand the CommandResult back to the agent as the tool result, so the same message is not
+  // also shown as a notification. Interactive prompts and progress notifications are unaffected.
+  async runForTool<T>(run: () => Promise<T>): Promise<T> {
+    this.toolCallsInFlight++;
+    try {
+      return await run();
+    } finally {
+      this.toolCallsInFlight--;
+    }
+  }
+
   private setStatus(ctx: ExtensionContext) {
     if (!ctx.hasUI) return;
 
@@ -142,29 +338,231 @@ export class PiJjRuntime {
 
   private clearState() {
     this.checkpoints.clear();
+    this.checkpointValidity.clear();
+    this.checkpointPathsCache.clear();
+    this.toolSnapshots = [];
+    this.agentWrites.clear();
+    this.agentStartedAt = 0;
     this.isGitRepo = false;
     this.pendingCheckpoint = null;
+    this.promptChange = null;
     this.resumeCheckpointOperationId = null;
-    this.lastRestoreOperationId = null;
+    this.undoStack = [];
+    this.redoStack = [];
     this.needsInitPrompt = false;
     this.initPromptShown = false;
     this.initInProgress = false;
     this.settingsStore.clearCache();
   }
 
-  private async execJj(args: string[]) {
-    const result = await this.pi.exec("jj", args);
+  private async execJj(args: string[], options?: { cwd?: string }) {
+    const result = await this.pi.exec("jj", args, options);
     if (result.code !== 0) {
       throw new Error(result.stderr?.trim() || `jj ${args.join(" ")} failed`);
     }
     return result;
   }
 
+  private async execGit(args: string[]) {
+    const result = await this.pi.exec("git", args);
+    if (result.code !== 0) {
+      throw new Error(result.stderr?.trim() || `git ${args.join(" ")} failed`);
+    }
+    return result;
+  }
+
   private async detectJjRepo(): Promise<boolean> {
     const result = await this.pi.exec("jj", ["root"]);
     return result.code === 0;
   }
 
+  private async repoCheckpointIndexPath(): Promise<string | null> {
+    const result = await this.pi.exec("jj", ["root"]);
+    if (result.code !== 0 || !result.stdout.trim()) return null;
+    return join(result.stdout.trim(), ".jj", REPO_CHECKPOINT_INDEX_FILE);
+  }
+
+  private async appendRepoCheckpoint(ctx: ExtensionContext, checkpoint: Checkpoint) {
+    const file = await this.repoCheckpointIndexPath();
+    if (!file || !this.sessionId) return;
+
+    const promptText = this.checkpointPromptText(ctx, checkpoint);
+    const record: RepoCheckpointRecord = {
+      ...checkpoint,
+      sessionId: this.sessionId,
+      sessionName: ctx.sessionManager.getSessionName?.(),
+      promptText: promptText ? promptText.slice(0, 500) : undefined,
+    };
+    await appendFile(file, `${JSON.stringify(record)}\n`, "utf-8");
+  }
+
+  // Pruned and hidden checkpoints are recorded as removal lines so other sessions' appends are never lost;
+  // `/jj-checkpoints compact` rewrites the file without them.
+  private async removeRepoCheckpoints(checkpoints: Checkpoint[]) {
+    const file = await this.repoCheckpointIndexPath();
+    if (!file || !this.sessionId || checkpoints.length === 0) return;
+
+    // Retention runs again on every session load; only record removals the index doesn't know about yet.
+    const listed = new Set(
+      (await this.readRepoCheckpoints()).filter((record) => record.sessionId === this.sessionId).map((record) => record.entryId),
+    );
+    const removedEntryIds = checkpoints.map((cp) => cp.entryId).filter((entryId) => listed.has(entryId));
+    if (removedEntryIds.length === 0) return;
+
+    const removal: RepoCheckpointRemoval = {
+      sessionId: this.sessionId,
+      removedEntryIds,
+      timestamp: Date.now(),
+    };
+    await appendFile(file, `${JSON.stringify(removal)}\n`, "utf-8");
+  }
+
+  // Other sessions keep appending while the compacted copy is written, so whatever was added since the
+  // file was read is copied over before the copy replaces it. Only whole lines are compacted; a line that
+  // was still being written travels with the tail.
+  private async compactRepoCheckpoints() {
+    const file = await this.repoCheckpointIndexPath();
+    if (!file) return;
+
+    let raw: string;
+    try {
+      raw = await readFile(file, "utf-8");
+    } catch {
+      return;
+    }
+    const head = raw.slice(0, raw.lastIndexOf("\n") + 1);
+    const records = this.parseRepoCheckpoints(head).reverse();
+    const tempFile = `${file}.${randomUUID()}.tmp`;
+    await writeFile(tempFile, records.map((record) => `${JSON.stringify(record)}\n`).join(""), "utf-8");
+
+    try {
+      let copied = head.length;
+      for (;;) {
+        const current = await readFile(file, "utf-8");
+        if (!current.startsWith(head)) throw new Error("the index was rewritten while compacting; left unchanged");
+        if (current.length === copied) break;
+        await appendFile(tempFile, current.slice(copied), "utf-8");
+        copied = current.length;
+      }
+      await rename(tempFile, file);
+    } catch (error) {
+      await rm(tempFile, { force: true });
+      throw error;
+    }
+  }
+
+  private async readRepoCheckpoints(): Promise<RepoCheckpointRecord[]> {
+    const file = await this.repoCheckpointIndexPath();
+    if (!file) return [];
+
+    let raw: string;
+    try {
+      raw = await readFile(file, "utf-8");
+    } catch {
+      return [];
+    }
+    return this.parseRepoCheckpoints(raw);
+  }
+
+  private parseRepoCheckpoints(raw: string): RepoCheckpointRecord[] {
+    // The index is append-only; a later line for the same session entry supersedes earlier ones.
+    const records = new Map<string, RepoCheckpointRecord>();
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const parsed = JSON.parse(line) as RepoCheckpointRecord | RepoCheckpointRemoval;
+        if (parsed && "removedEntryIds" in parsed && Array.isArray(parsed.removedEntryIds)) {
+          for (const entryId of parsed.removedEntryIds) records.delete(`${parsed.sessionId}:${entryId}`);
+          continue;
+        }
+        const record = parsed as RepoCheckpointRecord;
+        if (!record?.entryId || !record.revision || !record.timestamp || !record.sessionId) continue;
+        records.set(`${record.sessionId}:${record.entryId}`, record);
+      } catch {
+        // skip a torn or hand-edited line
+      }
+    }
+
+    return [...records.values()].sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  private repoCheckpointLine(record: RepoCheckpointRecord, singleLine = false): string {
+    const session = record.sessionName || record.sessionId.slice(0, 8);
+    const current = record.sessionId === this.sessionId ? " (this session)" : "";
+    const prompt = record.promptText ? promptSnippet(record.promptText, 80) : "-";
+    return `${checkpointLine(record)}  session:${session}${current}${singleLine ? "  " : "\n    "}prompt: ${prompt}`;
+  }
+
+  private async commandCheckpointsAll(plain: boolean, ctx: ExtensionContext): Promise<CommandResult<RepoCheckpointListResult>> {
+    if (!(await this.ensureJjRepo())) {
+      return this.report(ctx, "warning", "Not a jj repo");
+    }
+
+    const records = await this.readRepoCheckpoints();
+    if (records.length === 0) {
+      return this.report(ctx, "info", "No jj checkpoints recorded in this repo yet");
+    }
+
+    const visible = records.slice(0, this.loadSettings().checkpointListLimit);
+    const sessions = new Set(records.map((record) => record.sessionId)).size;
+    const title = `jj checkpoints across ${sessions} session(s) (${records.length})`;
+
+    const data = { total: records.length, records: visible };
+    if (plain || !ctx.hasUI) {
+      return this.report(
+        ctx,
+        "info",
+        `${title}\n${visible.map((record) => this.repoCheckpointLine(record)).join("\n")}`,
+        data,
+      );
+    }
+
+    await this.showRepoCheckpointsUi(title, visible, ctx);
+    return { ok: true, message: title, data };
+  }
+
+  private async showRepoCheckpointsUi(title: string, visible: RepoCheckpointRecord[], ctx: ExtensionContext) {
+    const labels = visible.map((record) => this.repoCheckpointLine(record, true));
+    const selected = await ctx.ui.select(title, labels);
+    if (!selected) return;
+    const record = visible[labels.indexOf(selected)];
+    if (!record) return;
+    // Per-turn records stand for the state after their turn, as they do in /tree and the session picker.
+    const { revision } = this.restorePointFor(record);
+
+    const action = await ctx.ui.select("Checkpoint action", [
+      "Restore files now",
+      "Show diffstat vs working copy",
+      "Copy revision to editor",
+      "Cancel",
+    ]);
+    if (!action || action === "Cancel") return;
+
+    if (action === "Copy revision to editor") {
+      ctx.ui.setEditorText(revision);
+      ctx.ui.notify("Revision copied to editor", "info");
+      return;
+    }
+
+    if (action === "Show diffstat vs working copy") {
+      try {
+        const diff = await this.diffRevisions(revision, "@", { format: "stat" });
+        ctx.ui.notify(this.formatDiffOutput(`rev ${revision.slice(0, 12)} → @`, diff), "info");
+      } catch (error) {
+        ctx.ui.notify(`Failed to diff checkpoint: ${String(error)}`, "error");
+      }
+      return;
+    }
+
+    const success = await this.restoreWithUndo({ mode: "file", revision }, ctx);
+    if (success) {
+      ctx.ui.notify(
+        `Restored files from checkpoint (rev ${revision.slice(0, 12)}, session ${record.sessionName || record.sessionId.slice(0, 8)})`,
+        "info",
+      );
+    }
+  }
+
   private async detectGitRepo(): Promise<boolean> {
     const result = await this.pi.exec("git", ["rev-parse", "--is-inside-work-tree"]);
     return result.code === 0 && result.stdout.trim() === "true";
@@ -281,8 +679,8 @@ export class PiJjRuntime {
     this.settingsStore.updateSetting("restoreMode", chosen);
   }
 
-  private async listJjRefs(): Promise<string[]> {
-    const result = await this.pi.exec("git", ["for-each-ref", "--format=%(refname)", "refs/jj/"]);
+  private async listGitRefs(prefix: string): Promise<string[]> {
+    const result = await this.pi.exec("git", ["for-each-ref", "--format=%(refname)", prefix]);
     if (result.code !== 0) return [];
 
     return result.stdout
@@ -291,7 +689,38 @@ export class PiJjRuntime {
       .filter(Boolean);
   }
 
-  private async deinitJjRepo(ctx: ExtensionContext, removeRefs: boolean): Promise<boolean> {
+  private checkpointRefName(entryId: string): string {
+    return `${CHECKPOINT_REF_PREFIX}${this.sessionId ?? "unknown"}/${entryId}`;
+  }
+
+  private async anchorCheckpointRef(checkpoint: Checkpoint) {
+    if (!this.loadSettings().anchorCheckpointRefs) return;
+    await this.execGit(["update-ref", this.checkpointRefName(checkpoint.entryId), checkpoint.revision]);
+    if (checkpoint.postRevision) {
+      await this.execGit(["update-ref", this.checkpointRefName(`${checkpoint.entryId}-post`), checkpoint.postRevision]);
+    }
+  }
+
+  // Deleting a ref that doesn't exist succeeds, so only real failures are collected; the remaining refs
+  // are still deleted before they are reported.
+  private async deleteCheckpointRefs(checkpoints: Checkpoint[]) {
+    if (checkpoints.length === 0 || !this.loadSettings().anchorCheckpointRefs) return;
+    const failures: string[] = [];
+    for (const checkpoint of checkpoints) {
+      for (const name of [checkpoint.entryId, `${checkpoint.entryId}-post`]) {
+        try {
+          await this.execGit(["update-ref", "-d", this.checkpointRefName(name)]);
+        } catch (error) {
+          failures.push(error instanceof Error ? error.message : String(error));
+        }
+      }
+    }
+    if (failures.length > 0) {
+      throw new Error(`${failures.length} checkpoint ref(s) not deleted: ${failures[0]}`);
+    }
+  }
+
+  private async deinitJjRepo(ctx: ExtensionContext, removeRefs: boolean, removeCheckpointRefs: boolean): Promise<boolean> {
     const root = await this.gitRepoRoot();
     if (!root) {
       if (ctx.hasUI) ctx.ui.notify("Could not determine git repo root", "error");
@@ -303,23 +732,35 @@ export class PiJjRuntime {
 
     let removedRefs = 0;
     if (removeRefs) {
-      const refs = await this.listJjRefs();
+      const refs = await this.listGitRefs("refs/jj/");
       for (const ref of refs) {
         await this.pi.exec("git", ["update-ref", "-d", ref]);
         removedRefs++;
       }
     }
 
+    let removedCheckpointRefs = 0;
+    if (removeCheckpointRefs) {
+      const refs = await this.listGitRefs(CHECKPOINT_REF_PREFIX);
+      for (const ref of refs) {
+        await this.pi.exec("git", ["update-ref", "-d", ref]);
+        removedCheckpointRefs++;
+      }
+    }
+
     this.clearState();
     this.isGitRepo = true;
     this.isJjRepo = false;
     this.setStatus(ctx);
 
     if (ctx.hasUI) {
+      const checkpointRefsNote = removeCheckpointRefs
+        ? `, removed ${removedCheckpointRefs} ${CHECKPOINT_REF_PREFIX}* refs`
+        : "";
       if (removeRefs) {
-        ctx.ui.notify(`jj deinitialized (removed .jj and ${removedRefs} refs/jj/* refs)`, "info");
+        ctx.ui.notify(`jj deinitialized (removed .jj and ${removedRefs} refs/jj/* refs${checkpointRefsNote})`, "info");
       } else {
-        ctx.ui.notify("jj deinitialized (removed .jj, kept refs/jj/*)", "info");
+        ctx.ui.notify(`jj deinitialized (removed .jj, kept refs/jj/*${checkpointRefsNote})`, "info");
       }
     }
 
@@ -402,8 +843,116 @@ export class PiJjRuntime {
     await this.pi.exec("jj", ["git", "fetch", "--all-remotes"]);
   }
 
-  private async restoreFilesFromRevision(revision: string) {
-    await this.execJj(["restore", "--from", revision]);
+  private filesetArgs(paths?: string[]): string[] {
+    return (paths ?? []).map((path) => `file:"${path.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`);
+  }
+
+  private async restoreFilesFromRevision(revision: string, paths?: string[]) {
+    await this.execJj(["restore", "--from", revision, ...this.filesetArgs(paths)]);
+  }
+
+  private async diffRevisions(
+    from: string,
+    to: string,
+    options?: { format?: DiffFormat; atOperation?: string; ignoreWorkingCopy?: boolean },
+  ): Promise<string> {
+    const args = [
+      ...(options?.atOperation ? ["--at-op", options.atOperation] : []),
+      ...(options?.ignoreWorkingCopy && !options.atOperation ? ["--ignore-working-copy"] : []),
+      "diff",
+      "--from",
+      from,
+      "--to",
+      to,
+      options?.format === "stat" ? "--stat" : options?.format === "name-only" ? "--name-only" : "--git",
+    ];
+    const result = await this.execJj(args);
+    return result.stdout.trimEnd();
+  }
+
+  private summarizeDiffStat(output: string): { files: number; added: number; removed: number; topPaths: string[] } {
+    const lines = output.split("\n");
+    const summary = lines.at(-1) ?? "";
+    const count = (pattern: RegExp) => Number(pattern.exec(summary)?.[1] ?? 0);
+
+    const topPaths = lines
+      .slice(0, -1)
+      .map((line) => /^\s*(.+?)\s+\|\s+(\d+)/.exec(line))
+      .filter((match): match is RegExpExecArray => !!match)
+      .sort((a, b) => Number(b[2]) - Number(a[2]))
+      .slice(0, 5)
+      .map((match) => match[1]!);
+
+    return {
+      files: count(/(\d+) files? changed/),
+      added: count(/(\d+) insertions?\(\+\)/),
+      removed: count(/(\d+) deletions?\(-\)/),
+      topPaths,
+    };
+  }
+
+  private async computeTurnStats(preRevision: string, postRevision: string): Promise<CheckpointStats> {
+    const diff = this.summarizeDiffStat(
+      await this.diffRevisions(preRevision, postRevision, { format: "stat", ignoreWorkingCopy: true }),
+    );
+
+    const [preConflicts, postConflicts] = await Promise.all([
+      this.conflictedPaths(preRevision),
+      this.conflictedPaths(postRevision),
+    ]);
+    const pre = new Set(preConflicts);
+    const post = new Set(postConflicts);
+
+    return {
+      files: diff.files,
+      added: diff.added,
+      removed: diff.removed,
+      conflictsIntroduced: postConflicts.filter((path) => !pre.has(path)).length,
+      conflictsResolved: preConflicts.filter((path) => !post.has(path)).length,
+    };
+  }
+
+  private isNoOpCheckpoint(checkpoint: Checkpoint): boolean {
+    const stats = checkpoint.stats;
+    return !!stats && stats.files === 0 && stats.conflictsIntroduced === 0 && stats.conflictsResolved === 0;
+  }
+
+  private async diffCheckpointToWorkingCopy(checkpoint: Checkpoint, format: DiffFormat): Promise<string> {
+    return this.diffRevisions(checkpoint.revision, "@", { format });
+  }
+
+  private async diffBetweenCheckpoints(older: Checkpoint, newer: Checkpoint, format: DiffFormat): Promise<string> {
+    return this.diffRevisions(older.revision, newer.revision, { format, ignoreWorkingCopy: true });
+  }
+
+  private async diffCheckpointTurn(checkpoint: Checkpoint, format: DiffFormat): Promise<string> {
+    if (checkpoint.postOperationId) {
+      return this.diffRevisions(checkpoint.revision, "@", { format, atOperation: checkpoint.postOperationId });
+    }
+    if (checkpoint.postRevision) {
+      return this.diffRevisions(checkpoint.revision, checkpoint.postRevision, { format, ignoreWorkingCopy: true });
+    }
+    throw new Error("Checkpoint has no post-turn state (created before post-turn tracking)");
+  }
+
+  private async collectTouchedPaths(checkpoints: Checkpoint[]): Promise<string[]> {
+    const paths = new Set<string>();
+    for (const checkpoint of checkpoints) {
+      try {
+        const output = await this.diffCheckpointTurn(checkpoint, "name-only");
+        for (const line of output.split("\n")) {
+          const path = line.trim();
+          if (path) paths.add(path);
+        }
+      } catch {
+        // turns without post-turn state can't be attributed; leave their paths alone
+      }
+    }
+    return [...paths].sort();
+  }
+
+  private formatDiffOutput(title: string, diff: string): string {
+    return `${title}\n${diff ? truncateLines(diff, MAX_DIFF_LINES) : "(no changes)"}`;
   }
 
   private findLatestUserEntry(sessionManager: any): { id: string } | null {
@@ -421,10 +970,76 @@ export class PiJjRuntime {
     return null;
   }
 
+  private findLatestAssistantEntry(sessionManager: any): { id: string } | null {
+    const leafId = sessionManager.getLeafId?.();
+    if (!leafId) return null;
+
+    const branch = sessionManager.getBranch?.(leafId) ?? [];
+    for (let i = branch.length - 1; i >= 0; i--) {
+      const entry = branch[i];
+      if (entry?.type !== "message") continue;
+      if (entry.message?.role === "user") return null;
+      if (entry.message?.role === "assistant") return { id: entry.id };
+    }
+
+    return null;
+  }
+
+  private entryText(ctx: ExtensionContext, entryId: string): string {
+    const entry = ctx.sessionManager.getEntry(entryId);
+    if (entry?.type !== "message" || entry.message.role !== "user") return "";
+
+    const content = entry.message.content;
+    if (typeof content === "string") return content;
+    return content
+      .filter((part) => part.type === "text")
+      .map((part) => part.text)
+      .join("\n");
+  }
+
+  private promptEntryIdForCheckpoint(checkpoint: Checkpoint): string {
+    return checkpoint.promptEntryId ?? checkpoint.entryId;
+  }
+
+  private checkpointPromptText(ctx: ExtensionContext, checkpoint: Checkpoint): string {
+    return this.entryText(ctx, this.promptEntryIdForCheckpoint(checkpoint)) || checkpoint.imported?.promptText || "";
+  }
+
   private rebuildCheckpointsFromSession(ctx: ExtensionContext) {
     this.checkpoints.clear();
+    this.checkpointPathsCache.clear();
+
+    const allEntries = ctx.sessionManager.getEntries();
+
+    // A compacted index holds the full checkpoint set at that point; only entries after it need replaying.
+    let startIndex = 0;
+    for (let i = allEntries.length - 1; i >= 0; i--) {
+      const entry = allEntries[i]!;
+      if (entry.type !== "custom" || entry.customType !== CHECKPOINT_INDEX_ENTRY_TYPE) continue;
+
+      const data = entry.data as { checkpoints?: Checkpoint[]; sessionId?: string };
+      if (this.sessionId && data?.sessionId && data.sessionId !== this.sessionId) continue;
+      for (const checkpoint of data?.checkpoints ?? []) {
+        if (checkpoint?.entryId && checkpoint.revision && checkpoint.timestamp) {
+          this.checkpoints.set(checkpoint.entryId, { ...checkpoint });
+        }
+      }
+      startIndex = i + 1;
+      break;
+    }
+
+    const entries = allEntries.slice(startIndex);
+    const hidden = new Set<string>();
+    for (const entry of entries) {
+      if (entry.type !== "custom") continue;
+      if (entry.customType !== CHECKPOINT_HIDDEN_ENTRY_TYPE) continue;
+
+      const data = entry.data as { entryIds?: string[]; sessionId?: string };
+      if (this.sessionId && data?.sessionId && data.sessionId !== this.sessionId) continue;
+      for (const id of data?.entryIds ?? []) hidden.add(id);
+    }
+    for (const id of hidden) this.checkpoints.delete(id);
 
-    const entries = ctx.sessionManager.getEntries();
     for (const entry of entries) {
       if (entry.type !== "custom") continue;
       if (entry.customType !== CHECKPOINT_ENTRY_TYPE) continue;
@@ -432,9 +1047,11 @@ export class PiJjRuntime {
       const data = entry.data as Partial<Checkpoint> & { sessionId?: string };
       if (!data?.entryId || !data?.revision || !data?.timestamp) continue;
       if (this.sessionId && data.sessionId && data.sessionId !== this.sessionId) continue;
+      if (hidden.has(data.entryId)) continue;
 
+      // Later entries for the same checkpoint (e.g. the agent-end update) replace earlier ones.
       const existing = this.checkpoints.get(data.entryId);
-      if (!existing || existing.timestamp < data.timestamp) {
+      if (!existing || existing.timestamp <= data.timestamp) {
         this.checkpoints.set(data.entryId, {
           entryId: data.entryId,
           revision: data.revision,
@@ -445,67 +1062,417 @@ export class PiJjRuntime {
           operationIdShort: data.operationIdShort,
           postOperationId: data.postOperationId,
           postOperationIdShort: data.postOperationIdShort,
+          postRevision: data.postRevision,
+          agentEndRevision: data.agentEndRevision,
+          promptEntryId: data.promptEntryId,
+          turnIndex: data.turnIndex,
+          promptChangeId: data.promptChangeId,
+          promptChangeIdShort: data.promptChangeIdShort,
+          stats: data.stats,
+          imported: data.imported,
+          userEdits: data.userEdits,
+          turnUserEdits: data.turnUserEdits,
         });
       }
     }
 
-    this.pruneCheckpoints();
-  }
+    // Pin state lives in its own entries so it survives later checkpoint rewrites of the same entry.
+    for (const entry of entries) {
+      if (entry.type !== "custom") continue;
+      if (entry.customType !== CHECKPOINT_PIN_ENTRY_TYPE) continue;
 
-  private pruneCheckpoints() {
-    const maxCheckpoints = this.loadSettings().maxCheckpoints;
-    if (this.checkpoints.size <= maxCheckpoints) return;
+      const data = entry.data as { entryId?: string; pinned?: boolean; name?: string; sessionId?: string };
+      if (!data?.entryId) continue;
+      if (this.sessionId && data.sessionId && data.sessionId !== this.sessionId) continue;
 
-    const ordered = [...this.checkpoints.values()].sort((a, b) => a.timestamp - b.timestamp);
-    const toRemove = ordered.slice(0, ordered.length - maxCheckpoints);
-    for (const checkpoint of toRemove) {
-      this.checkpoints.delete(checkpoint.entryId);
+      const checkpoint = this.checkpoints.get(data.entryId);
+      if (!checkpoint) continue;
+      checkpoint.pinned = data.pinned === true;
+      checkpoint.pinName = data.pinned ? data.name || undefined : undefined;
     }
+
+    this.pruneCheckpoints(ctx);
+    this.rebuildToolSnapshotsFromSession(allEntries);
+    this.pruneToolSnapshots();
   }
 
-  private resolveCheckpointRevision(targetId: string, ctx: ExtensionContext): string | null {
-    const direct = this.checkpoints.get(targetId)?.revision;
-    if (direct) return direct;
+  private rebuildToolSnapshotsFromSession(entries: SessionEntry[]) {
+    this.toolSnapshots = [];
+    for (const entry of entries) {
+      if (entry.type !== "custom") continue;
+      if (entry.customType !== TOOL_SNAPSHOT_ENTRY_TYPE) continue;
 
-    const pathToTarget = ctx.sessionManager.getBranch?.(targetId) ?? [];
-    for (let i = pathToTarget.length - 1; i >= 0; i--) {
-      const checkpoint = this.checkpoints.get(pathToTarget[i]?.id);
-      if (checkpoint?.revision) return checkpoint.revision;
-    }
+      const data = entry.data as Partial<ToolSnapshot> & { sessionId?: string };
+      if (!data?.id || !data.promptEntryId || !data.revision || !data.operationId || !data.timestamp) continue;
+      if (this.sessionId && data.sessionId && data.sessionId !== this.sessionId) continue;
+      this.toolSnapshots.push({
+        id: data.id,
+        promptEntryId: data.promptEntryId,
+        turnIndex: data.turnIndex ?? 0,
+        toolCallId: data.toolCallId ?? "",
+        toolName: data.toolName ?? "tool",
+        summary: data.summary ?? "",
+        revision: data.revision,
+        operationId: data.operationId,
+        operationIdShort: data.operationIdShort ?? data.operationId.slice(0, 12),
+        timestamp: data.timestamp,
+      });
+    }
+  }
+
+  private toolSnapshotBelongsTo(snapshot: ToolSnapshot, checkpoint: Checkpoint): boolean {
+    // Prompt-mode checkpoints cover the whole prompt; per-turn checkpoints only their own turn.
+    if (snapshot.promptEntryId !== this.promptEntryIdForCheckpoint(checkpoint)) return false;
+    return !this.isTurnCheckpoint(checkpoint) || snapshot.turnIndex === checkpoint.turnIndex;
+  }
+
+  private toolSnapshotsFor(checkpoint: Checkpoint): ToolSnapshot[] {
+    return this.toolSnapshots
+      .filter((snapshot) => this.toolSnapshotBelongsTo(snapshot, checkpoint))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  // Snapshots go with their checkpoint: once it is pruned or hidden they are no longer listed or restorable.
+  private pruneToolSnapshots() {
+    const checkpoints = [...this.checkpoints.values()];
+    const inFlight = this.pendingCheckpoint?.timestamp;
+    this.toolSnapshots = this.toolSnapshots.filter(
+      (snapshot) =>
+        (inFlight !== undefined && snapshot.timestamp >= inFlight) ||
+        checkpoints.some((checkpoint) => this.toolSnapshotBelongsTo(snapshot, checkpoint)),
+    );
+  }
+
+  private checkpointListLines(checkpoint: Checkpoint): string[] {
+    return [this.checkpointLabel(checkpoint), ...this.toolSnapshotsFor(checkpoint).map(toolSnapshotLine)];
+  }
+
+  private shouldSnapshotToolCall(event: ToolCallEventLike): string | null {
+    const settings = this.loadSettings();
+    if (!settings.toolSnapshots) return null;
+
+    if (event.toolName === "bash") {
+      const command = typeof event.input.command === "string" ? event.input.command : "";
+      const matches = settings.toolSnapshotBashPatterns.some((pattern) => this.patternMatcher(pattern)(command));
+      return matches ? promptSnippet(command) : null;
+    }
+
+    if (!settings.toolSnapshotTools.includes(event.toolName)) return null;
+    const path = event.input.path;
+    return typeof path === "string" ? path : event.toolName;
+  }
+
+  private patternMatcher(pattern: string): (text: string) => boolean {
+    if (!pattern) return () => false;
+    try {
+      const regex = new RegExp(pattern, "i");
+      return (text) => regex.test(text);
+    } catch {
+      const needle = pattern.toLowerCase();
+      return (text) => text.toLowerCase().includes(needle);
+    }
+  }
+
+  private checkpointsOutsideRetention(ctx: ExtensionContext): Checkpoint[] {
+    const settings = this.loadSettings();
+    if (settings.retentionKeepAllHours <= 0) return [];
+
+    const hour = 3_600_000;
+    const keepAllUntil = Date.now() - settings.retentionKeepAllHours * hour;
+    const hourlyUntil = keepAllUntil - settings.retentionHourlyDays * 24 * hour;
+    const promptMatches = this.patternMatcher(settings.retentionKeepPromptPattern);
+
+    // Newest first, so the newest checkpoint in each hourly/daily bucket is the one kept.
+    const buckets = new Set<string>();
+    const outside: Checkpoint[] = [];
+    for (const checkpoint of this.getOrderedCheckpoints()) {
+      if (checkpoint.pinned || checkpoint.timestamp >= keepAllUntil) continue;
+      if (promptMatches(this.checkpointPromptText(ctx, checkpoint))) continue;
+
+      const bucket = checkpoint.timestamp >= hourlyUntil
+        ? `h:${Math.floor(checkpoint.timestamp / hour)}`
+        : `d:${Math.floor(checkpoint.timestamp / (24 * hour))}`;
+      if (buckets.has(bucket)) {
+        outside.push(checkpoint);
+      } else {
+        buckets.add(bucket);
+      }
+    }
+    return outside;
+  }
+
+  private pruneCheckpoints(ctx: ExtensionContext): Checkpoint[] {
+    const toRemove = this.checkpointsOutsideRetention(ctx);
+    for (const checkpoint of toRemove) {
+      this.checkpoints.delete(checkpoint.entryId);
+    }
+
+    const maxCheckpoints = this.loadSettings().maxCheckpoints;
+    if (this.checkpoints.size > maxCheckpoints) {
+      const ordered = [...this.checkpoints.values()].filter((cp) => !cp.pinned).sort((a, b) => a.timestamp - b.timestamp);
+      for (const checkpoint of ordered.slice(0, Math.max(0, this.checkpoints.size - maxCheckpoints))) {
+        this.checkpoints.delete(checkpoint.entryId);
+        toRemove.push(checkpoint);
+      }
+    }
+
+    if (toRemove.length > 0) {
+      this.pruneToolSnapshots();
+      this.deleteCheckpointRefs(toRemove).catch((error) => {
+        this.report(ctx, "warning", `Failed to delete refs of pruned checkpoints: ${String(error)}`);
+      });
+      this.removeRepoCheckpoints(toRemove).catch((error) => {
+        this.report(ctx, "warning", `Failed to drop pruned checkpoints from the repo index: ${String(error)}`);
+      });
+    }
+    return toRemove;
+  }
+
+  private compactCheckpoints(ctx: ExtensionContext): { kept: number; removed: number } {
+    const removed = this.pruneCheckpoints(ctx);
+    const checkpoints = [...this.checkpoints.values()].sort((a, b) => a.timestamp - b.timestamp);
+
+    this.pi.appendEntry(CHECKPOINT_INDEX_ENTRY_TYPE, {
+      checkpoints,
+      timestamp: Date.now(),
+      sessionId: this.sessionId,
+    });
+
+    return { kept: checkpoints.length, removed: removed.length };
+  }
+
+  private async saveCheckpoint(ctx: ExtensionContext, checkpoint: Checkpoint) {
+    if (!checkpoint.stats && checkpoint.postRevision) {
+      try {
+        checkpoint.stats = await this.computeTurnStats(checkpoint.revision, checkpoint.postRevision);
+      } catch {
+        // stats are informational; keep the checkpoint without them
+      }
+    }
+
+    this.checkpoints.set(checkpoint.entryId, checkpoint);
+    this.checkpointValidity.set(checkpoint.entryId, "valid");
+    this.checkpointPathsCache.delete(checkpoint.entryId);
+    this.pruneCheckpoints(ctx);
+
+    this.pi.appendEntry(CHECKPOINT_ENTRY_TYPE, {
+      ...checkpoint,
+      sessionId: this.sessionId,
+    });
+
+    this.maybeLabelEntry(ctx, checkpoint.entryId, checkpoint);
+    try {
+      await this.anchorCheckpointRef(checkpoint);
+    } catch (error) {
+      this.report(ctx, "warning", `Failed to anchor checkpoint ${checkpoint.entryId.slice(0, 8)}: ${String(error)}`);
+    }
+    await this.appendRepoCheckpoint(ctx, checkpoint).catch(() => undefined);
+  }
+
+  private isTurnCheckpoint(checkpoint: Checkpoint): boolean {
+    return !!checkpoint.promptEntryId && checkpoint.promptEntryId !== checkpoint.entryId;
+  }
+
+  private getTurnCheckpointsForPrompt(promptEntryId: string): Checkpoint[] {
+    return [...this.checkpoints.values()]
+      .filter((cp) => cp.promptEntryId === promptEntryId && this.isTurnCheckpoint(cp))
+      .sort((a, b) => (a.turnIndex ?? 0) - (b.turnIndex ?? 0));
+  }
+
+  private restorePointFor(checkpoint: Checkpoint): RestorePoint {
+    if (this.isTurnCheckpoint(checkpoint) && checkpoint.postRevision) {
+      return { checkpoint, revision: checkpoint.postRevision, phase: "post" };
+    }
+    return { checkpoint, revision: checkpoint.revision, phase: "pre" };
+  }
+
+  private resolveRestorePoint(targetId: string, ctx: ExtensionContext): RestorePoint | null {
+    const direct = this.checkpoints.get(targetId);
+    if (direct?.revision) return this.restorePointFor(direct);
+
+    // A user entry in per-turn mode has no checkpoint of its own; use the pre-state of its first turn.
+    const firstTurn = this.getTurnCheckpointsForPrompt(targetId)[0];
+    if (firstTurn) return { checkpoint: firstTurn, revision: firstTurn.revision, phase: "pre" };
+
+    const pathToTarget = ctx.sessionManager.getBranch?.(targetId) ?? [];
+    for (let i = pathToTarget.length - 1; i >= 0; i--) {
+      const entryId = pathToTarget[i]?.id;
+      const checkpoint = this.checkpoints.get(entryId);
+      if (checkpoint?.revision) return this.restorePointFor(checkpoint);
+
+      const promptTurn = entryId ? this.getTurnCheckpointsForPrompt(entryId)[0] : undefined;
+      if (promptTurn) return { checkpoint: promptTurn, revision: promptTurn.revision, phase: "pre" };
+    }
 
     return null;
   }
 
+  private checkpointsSincePoint(point: RestorePoint): Checkpoint[] {
+    const { timestamp } = point.checkpoint;
+    return [...this.checkpoints.values()]
+      .filter((cp) => (point.phase === "pre" ? cp.timestamp >= timestamp : cp.timestamp > timestamp))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
   private resolveCheckpointOperationId(targetId: string, ctx: ExtensionContext): string | null {
     const directCheckpoint = this.checkpoints.get(targetId);
-    if (directCheckpoint?.operationId) return directCheckpoint.operationId;
+    if (directCheckpoint && this.isTurnCheckpoint(directCheckpoint)) {
+      const opId = directCheckpoint.postOperationId ?? directCheckpoint.operationId;
+      if (opId) return opId;
+    } else if (directCheckpoint?.operationId) {
+      return directCheckpoint.operationId;
+    }
+
+    const firstTurn = this.getTurnCheckpointsForPrompt(targetId)[0];
+    if (firstTurn?.operationId) return firstTurn.operationId;
 
     const pathToTarget = ctx.sessionManager.getBranch?.(targetId) ?? [];
     for (let i = pathToTarget.length - 1; i >= 0; i--) {
-      const checkpoint = this.checkpoints.get(pathToTarget[i]?.id);
-      if (!checkpoint) continue;
-      return checkpoint.postOperationId ?? checkpoint.operationId ?? null;
+      const entryId = pathToTarget[i]?.id;
+      const checkpoint = this.checkpoints.get(entryId);
+      if (checkpoint) {
+        return checkpoint.postOperationId ?? checkpoint.operationId ?? null;
+      }
+
+      const promptTurn = entryId ? this.getTurnCheckpointsForPrompt(entryId)[0] : undefined;
+      if (promptTurn) return promptTurn.operationId ?? null;
     }
 
     return this.resumeCheckpointOperationId;
   }
 
-  private resolveRestoreTarget(targetId: string, ctx: ExtensionContext): { mode: "file"; revision: string } | { mode: "operation"; operationId: string } | null {
+  private resolveRestoreTarget(targetId: string, ctx: ExtensionContext): RestoreTarget | null {
     const settings = this.loadSettings();
     if (settings.restoreMode === "operation") {
       const opId = this.resolveCheckpointOperationId(targetId, ctx);
       if (opId) return { mode: "operation", operationId: opId };
       return null;
     }
-    const rev = this.resolveCheckpointRevision(targetId, ctx);
-    if (rev) return { mode: "file", revision: rev };
+    const point = this.resolveRestorePoint(targetId, ctx);
+    if (point) return { mode: "file", revision: point.revision };
     return null;
   }
 
+  // Imported checkpoints carry no operation from this repo, so operation mode falls back to restoring files.
+  private checkpointRestoreTarget(point: RestorePoint): RestoreTarget {
+    const { checkpoint } = point;
+    const operationId = point.phase === "post" ? checkpoint.postOperationId : checkpoint.operationId;
+    if (this.loadSettings().restoreMode === "operation" && operationId) {
+      return { mode: "operation", operationId };
+    }
+    return { mode: "file", revision: point.revision };
+  }
+
+  private restoreTargetLabel(target: RestoreTarget): string {
+    return target.mode === "operation" ? `op ${target.operationId.slice(0, 12)}` : `rev ${target.revision.slice(0, 12)}`;
+  }
+
   private getOrderedCheckpoints(): Checkpoint[] {
     return [...this.checkpoints.values()].sort((a, b) => b.timestamp - a.timestamp);
   }
 
+  private checkpointLabel(checkpoint: Checkpoint): string {
+    return checkpointLine(checkpoint, this.checkpointValidity.get(checkpoint.entryId));
+  }
+
+  private async existingCommitIds(revisions: string[]): Promise<Set<string>> {
+    const existing = new Set<string>();
+    const unique = [...new Set(revisions)];
+    // Chunked only to stay under the per-argument size limit for very large histories.
+    for (let i = 0; i < unique.length; i += 1000) {
+      const revset = unique.slice(i, i + 1000).map((rev) => `present(${rev})`).join(" | ");
+      const result = await this.execJj(["--ignore-working-copy", "log", "--no-graph", "-r", revset, "-T", "commit_id ++ \"\\n\""]);
+      for (const line of result.stdout.split("\n")) {
+        const id = line.trim();
+        if (id) existing.add(id);
+      }
+    }
+    return existing;
+  }
+
+  private async existingOperationIds(): Promise<Set<string>> {
+    const result = await this.execJj(["--ignore-working-copy", "op", "log", "--no-graph", "-T", "id ++ \"\\n\""]);
+    return new Set(
+      result.stdout
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean),
+    );
+  }
+
+  private async validateCheckpoints(): Promise<Map<string, CheckpointValidity>> {
+    this.checkpointValidity.clear();
+    const checkpoints = [...this.checkpoints.values()];
+    if (checkpoints.length === 0) return this.checkpointValidity;
+
+    const commits = await this.existingCommitIds(
+      checkpoints.flatMap((cp) => (cp.postRevision ? [cp.revision, cp.postRevision] : [cp.revision])),
+    );
+    const operations = await this.existingOperationIds();
+
+    for (const checkpoint of checkpoints) {
+      let validity: CheckpointValidity = "dead";
+      if (commits.has(checkpoint.revision)) {
+        // The post-turn state backs turn diffs, redo and per-turn reverts; losing it leaves only a file restore.
+        const opOk = !checkpoint.operationId || operations.has(checkpoint.operationId);
+        const postOk =
+          (!checkpoint.postRevision || commits.has(checkpoint.postRevision)) &&
+          (!checkpoint.postOperationId || operations.has(checkpoint.postOperationId));
+        validity = opOk && postOk ? "valid" : "revision-only";
+      }
+      this.checkpointValidity.set(checkpoint.entryId, validity);
+    }
+
+    return this.checkpointValidity;
+  }
+
+  private hideCheckpoints(checkpoints: Checkpoint[], ctx: ExtensionContext) {
+    if (checkpoints.length === 0) return;
+
+    for (const checkpoint of checkpoints) {
+      this.checkpoints.delete(checkpoint.entryId);
+      this.checkpointValidity.delete(checkpoint.entryId);
+    }
+
+    this.pruneToolSnapshots();
+
+    this.pi.appendEntry(CHECKPOINT_HIDDEN_ENTRY_TYPE, {
+      entryIds: checkpoints.map((cp) => cp.entryId),
+      sessionId: this.sessionId,
+    });
+
+    this.deleteCheckpointRefs(checkpoints).catch((error) => {
+      this.report(ctx, "warning", `Failed to delete refs of hidden checkpoints: ${String(error)}`);
+    });
+    this.removeRepoCheckpoints(checkpoints).catch((error) => {
+      this.report(ctx, "warning", `Failed to drop hidden checkpoints from the repo index: ${String(error)}`);
+    });
+  }
+
+  private getListedCheckpoints(options?: { changedOnly?: boolean }): Checkpoint[] {
+    const ordered = this.getOrderedCheckpoints().filter((cp) => !options?.changedOnly || !this.isNoOpCheckpoint(cp));
+    return [...ordered.filter((cp) => cp.pinned), ...ordered.filter((cp) => !cp.pinned)];
+  }
+
+  private setCheckpointPin(ctx: ExtensionContext, checkpoint: Checkpoint, pinned: boolean, name?: string) {
+    checkpoint.pinned = pinned;
+    checkpoint.pinName = pinned ? name || undefined : undefined;
+
+    this.pi.appendEntry(CHECKPOINT_PIN_ENTRY_TYPE, {
+      entryId: checkpoint.entryId,
+      pinned,
+      name: checkpoint.pinName,
+      sessionId: this.sessionId,
+    });
+
+    this.maybeLabelEntry(ctx, checkpoint.entryId, checkpoint);
+  }
+
+  private findCheckpointByPrefix(prefix: string): Checkpoint | null {
+    if (!prefix) return null;
+    return this.getOrderedCheckpoints().find((cp) => cp.entryId.startsWith(prefix)) ?? null;
+  }
+
   private async getStackNodes(): Promise<StackNode[]> {
     const result = await this.execJj([
       "--ignore-working-copy",
@@ -796,6 +1763,8 @@ export class PiJjRuntime {
     const entryId = this.latestCheckpointEntryIdForChange(changeIdShort);
     if (!entryId) return;
 
+    // Fallback per-turn keys are not session entries, so there is nothing to label.
+    if (!ctx.sessionManager.getEntry(entryId)) return;
     const existing = ctx.sessionManager.getLabel?.(entryId);
     if (existing && !existing.startsWith("jj:")) return;
 
@@ -884,7 +1853,8 @@ export class PiJjRuntime {
   }
 
   private stackStatusNodeLine(view: StackStatusNodeView, index: number): string {
-    return `${index + 1}. ${view.node.changeIdShort} rev:${view.node.revisionShort} ${view.node.description} (${view.prLabel})`;
+    const prompt = view.promptText ? ` prompt:"${promptSnippet(view.promptText, 40)}"` : "";
+    return `${index + 1}. ${view.node.changeIdShort} rev:${view.node.revisionShort} ${view.node.description} (${view.prLabel})${prompt}`;
   }
 
   private async collectStackStatusSnapshot(ctx: ExtensionContext): Promise<StackStatusSnapshot> {
@@ -898,12 +1868,22 @@ export class PiJjRuntime {
     const prSnapshot = this.latestPrStateSnapshot(ctx);
     const prByChange = new Map((prSnapshot?.records ?? []).map((record) => [record.changeIdShort, record]));
 
+    // Oldest first, so each isolated change maps to the prompt that created it.
+    const promptByChange = new Map<string, string>();
+    for (const checkpoint of [...checkpoints].reverse()) {
+      if (!checkpoint.promptChangeId || promptByChange.has(checkpoint.promptChangeId)) continue;
+      promptByChange.set(checkpoint.promptChangeId, this.promptEntryIdForCheckpoint(checkpoint));
+    }
+
     const stackViews: StackStatusNodeView[] = stack.map((node) => {
       const prRecord = prByChange.get(node.changeIdShort);
+      const promptEntryId = promptByChange.get(node.changeId);
       return {
         node,
         prRecord,
         prLabel: this.stackPrLabel(prRecord),
+        promptEntryId,
+        promptText: promptEntryId ? this.entryText(ctx, promptEntryId) || undefined : undefined,
       };
     });
 
@@ -920,7 +1900,7 @@ export class PiJjRuntime {
       `current change: ${change.id} (${change.short})`,
       `current operation: ${operation.id} (${operation.short})`,
       `checkpoints: ${checkpoints.length}`,
-      `latest checkpoint: ${latestCheckpoint ? checkpointLine(latestCheckpoint) : "-"}`,
+      `latest checkpoint: ${latestCheckpoint ? this.checkpointLabel(latestCheckpoint) : "-"}`,
       `latest PR snapshot: ${prSnapshotLine}`,
       `stack entries: ${stackViews.length}`,
       "stack:",
@@ -957,6 +1937,8 @@ export class PiJjRuntime {
     if (view.prRecord?.number) lines.push(`PR #: ${view.prRecord.number}`);
     if (view.prRecord?.url) lines.push(`PR URL: ${view.prRecord.url}`);
     if (view.prRecord?.base) lines.push(`Recorded base: ${view.prRecord.base}`);
+    if (view.promptEntryId) lines.push(`prompt entry: ${view.promptEntryId}`);
+    if (view.promptText) lines.push(`prompt: ${promptSnippet(view.promptText, 200)}`);
 
     return lines;
   }
@@ -1287,7 +2269,10 @@ export class PiJjRuntime {
   }
 
   private maybeLabelEntry(ctx: ExtensionContext, entryId: string, checkpoint: Checkpoint) {
-    const label = `jj:${checkpoint.changeIdShort ?? checkpoint.revision.slice(0, 8)}`;
+    const turn = this.isTurnCheckpoint(checkpoint) ? ` turn:${checkpoint.turnIndex ?? 0}` : "";
+    const pin = checkpoint.pinned ? ` pin:${checkpoint.pinName ?? "*"}` : "";
+    const stats = checkpoint.stats ? ` ${checkpointStatsLine(checkpoint.stats)}` : "";
+    const label = `jj:${checkpoint.changeIdShort ?? checkpoint.revision.slice(0, 8)}${turn}${stats}${pin}`;
 
     const existing = ctx.sessionManager.getLabel?.(entryId);
     if (existing && !existing.startsWith("jj:")) return;
@@ -1295,8 +2280,11 @@ export class PiJjRuntime {
     this.pi.setLabel(entryId, label);
   }
 
-  private async showCheckpointUi(ctx: ExtensionContext): Promise<void> {
-    const ordered = this.getOrderedCheckpoints();
+  private async showCheckpointUi(
+    ctx: ExtensionContext,
+    options?: { changedOnly?: boolean; checkpoints?: Checkpoint[]; title?: string },
+  ): Promise<void> {
+    const ordered = options?.checkpoints ?? this.getListedCheckpoints(options);
     if (ordered.length === 0) {
       ctx.ui.notify("No jj checkpoints yet", "info");
       return;
@@ -1304,17 +2292,32 @@ export class PiJjRuntime {
 
     const settings = this.loadSettings();
     const visible = ordered.slice(0, settings.checkpointListLimit);
-    const labels = visible.map(checkpointLine);
+    const items = visible.flatMap((cp) => [
+      { label: this.checkpointLabel(cp), checkpoint: cp, snapshot: undefined },
+      ...this.toolSnapshotsFor(cp).map((snapshot) => ({ label: toolSnapshotLine(snapshot), checkpoint: cp, snapshot })),
+    ]);
+    const labels = items.map((item) => item.label);
 
-    const selected = await ctx.ui.select(`jj checkpoints (${ordered.length})`, labels);
+    const selected = await ctx.ui.select(`${options?.title ?? "jj checkpoints"} (${ordered.length})`, labels);
     if (!selected) return;
 
-    const index = labels.indexOf(selected);
-    if (index < 0) return;
-    const checkpoint = visible[index];
+    const item = items[labels.indexOf(selected)];
+    if (!item) return;
+    if (item.snapshot) {
+      await this.showToolSnapshotActions(item.snapshot, ctx);
+      return;
+    }
+    const checkpoint = item.checkpoint;
 
     const action = await ctx.ui.select("Checkpoint action", [
       "Restore files now",
+      "Restore agent-touched paths only",
+      "Revert this turn (keep later turns)",
+      "Show diffstat vs working copy",
+      "Show full diff vs working copy",
+      "Show what this turn changed",
+      "Compare with another checkpoint",
+      checkpoint.pinned ? "Unpin checkpoint" : "Pin checkpoint",
       "Copy revision to editor",
       "Show details",
       "Cancel",
@@ -1322,30 +2325,109 @@ export class PiJjRuntime {
 
     if (!action || action === "Cancel") return;
 
-    if (action === "Restore files now") {
+    if (action.startsWith("Show diffstat") || action.startsWith("Show full diff") || action === "Show what this turn changed") {
       if (!(await this.ensureJjRepo())) {
         ctx.ui.notify("Not a jj repo", "warning");
         return;
       }
 
-      const settings = this.loadSettings();
-      let target: { mode: "file"; revision: string } | { mode: "operation"; operationId: string };
-      if (settings.restoreMode === "operation") {
-        if (!checkpoint.operationId) {
-          ctx.ui.notify("Checkpoint has no operation ID (created before op tracking)", "warning");
+      try {
+        if (action === "Show what this turn changed") {
+          const diff = await this.diffCheckpointTurn(checkpoint, "git");
+          ctx.ui.notify(this.formatDiffOutput(`turn changes (${checkpoint.entryId.slice(0, 8)})`, diff), "info");
           return;
         }
-        target = { mode: "operation", operationId: checkpoint.operationId };
-      } else {
-        target = { mode: "file", revision: checkpoint.revision };
+
+        const stat = action.startsWith("Show diffstat");
+        const diff = await this.diffCheckpointToWorkingCopy(checkpoint, stat ? "stat" : "git");
+        ctx.ui.notify(this.formatDiffOutput(`rev ${checkpoint.revision.slice(0, 12)} → @`, diff), "info");
+      } catch (error) {
+        ctx.ui.notify(`Failed to diff checkpoint: ${String(error)}`, "error");
+      }
+      return;
+    }
+
+    if (action === "Pin checkpoint") {
+      const name = await ctx.ui.input("Checkpoint name (optional)", "e.g. tests green before refactor");
+      if (name === undefined) return;
+      this.setCheckpointPin(ctx, checkpoint, true, name.trim());
+      ctx.ui.notify(`Pinned checkpoint ${checkpoint.entryId.slice(0, 8)}${name.trim() ? ` as "${name.trim()}"` : ""}`, "info");
+      return;
+    }
+
+    if (action === "Unpin checkpoint") {
+      this.setCheckpointPin(ctx, checkpoint, false);
+      ctx.ui.notify(`Unpinned checkpoint ${checkpoint.entryId.slice(0, 8)}`, "info");
+      return;
+    }
+
+    if (action === "Compare with another checkpoint") {
+      const others = visible.filter((cp) => cp.entryId !== checkpoint.entryId);
+      if (others.length === 0) {
+        ctx.ui.notify("No other checkpoint to compare with", "info");
+        return;
+      }
+
+      const otherLabels = others.map((cp) => this.checkpointLabel(cp));
+      const otherSelected = await ctx.ui.select("Compare with checkpoint", otherLabels);
+      if (!otherSelected) return;
+      const other = others[otherLabels.indexOf(otherSelected)];
+      if (!other) return;
+
+      try {
+        const [older, newer] = checkpoint.timestamp <= other.timestamp ? [checkpoint, other] : [other, checkpoint];
+        const diff = await this.diffBetweenCheckpoints(older, newer, "git");
+        ctx.ui.notify(
+          this.formatDiffOutput(`rev ${older.revision.slice(0, 12)} → rev ${newer.revision.slice(0, 12)}`, diff),
+          "info",
+        );
+      } catch (error) {
+        ctx.ui.notify(`Failed to diff checkpoints: ${String(error)}`, "error");
+      }
+      return;
+    }
+
+    if (action === "Revert this turn (keep later turns)") {
+      if (!(await this.ensureJjRepo())) {
+        ctx.ui.notify("Not a jj repo", "warning");
+        return;
+      }
+
+      await this.revertCheckpointTurn(checkpoint, ctx);
+      return;
+    }
+
+    if (action === "Restore agent-touched paths only") {
+      if (!(await this.ensureJjRepo())) {
+        ctx.ui.notify("Not a jj repo", "warning");
+        return;
+      }
+
+      const target = await this.promptPathScopedTarget({ checkpoint, revision: checkpoint.revision, phase: "pre" }, ctx);
+      if (!target || target.mode !== "paths") return;
+
+      const success = await this.restoreWithUndo(target, ctx);
+      if (success) {
+        ctx.ui.notify(`Restored ${target.paths.length} path(s) from checkpoint (rev ${checkpoint.revision.slice(0, 12)})`, "info");
+      }
+      return;
+    }
+
+    if (action === "Restore files now") {
+      if (!(await this.ensureJjRepo())) {
+        ctx.ui.notify("Not a jj repo", "warning");
+        return;
       }
 
+      const point = this.restorePointFor(checkpoint);
+      let target = this.checkpointRestoreTarget(point);
+      const chosen = await this.withUserEditsChoice(target, point, ctx);
+      if (!chosen) return;
+      target = chosen;
+
       const success = await this.restoreWithUndo(target, ctx);
       if (success) {
-        const label = target.mode === "operation"
-          ? `op ${checkpoint.operationIdShort ?? checkpoint.operationId!.slice(0, 12)}`
-          : `rev ${checkpoint.revision.slice(0, 12)}`;
-        ctx.ui.notify(`Restored from checkpoint (${label})`, "info");
+        ctx.ui.notify(`Restored from checkpoint (${this.restoreTargetLabel(target)})`, "info");
       }
       return;
     }
@@ -1363,6 +2445,12 @@ export class PiJjRuntime {
       `changeShort: ${checkpoint.changeIdShort ?? "-"}`,
       `pre-turn op: ${checkpoint.operationId ?? "-"} (${checkpoint.operationIdShort ?? "-"})`,
       `post-turn op: ${checkpoint.postOperationId ?? "-"} (${checkpoint.postOperationIdShort ?? "-"})`,
+      `post-turn revision: ${checkpoint.postRevision ?? "-"}`,
+      `turn changes: ${checkpoint.stats ? checkpointStatsLine(checkpoint.stats) : "-"}`,
+      `user edits before turn: ${checkpoint.userEdits ? checkpoint.userEdits.paths.join(", ") : "-"}`,
+      `user edits during turn: ${checkpoint.turnUserEdits ? checkpoint.turnUserEdits.paths.join(", ") : "-"}`,
+      `turn: ${checkpoint.turnIndex ?? "-"}${checkpoint.promptEntryId ? ` (prompt ${checkpoint.promptEntryId})` : ""}`,
+      `prompt change: ${checkpoint.promptChangeId ?? "-"} (${checkpoint.promptChangeIdShort ?? "-"})`,
       `timestamp: ${new Date(checkpoint.timestamp).toISOString()}`,
       `age: ${formatAge(checkpoint.timestamp)}`,
     ].join("\n");
@@ -1370,15 +2458,145 @@ export class PiJjRuntime {
     ctx.ui.notify(details, "info");
   }
 
-  private async restoreWithUndo(target: { mode: "file"; revision: string } | { mode: "operation"; operationId: string }, ctx: ExtensionContext): Promise<boolean> {
+  private async selectPaths(title: string, paths: string[], ctx: ExtensionContext): Promise<string[] | null> {
+    const selected = new Set(paths);
+
+    while (true) {
+      const confirmOption = `Restore selected (${selected.size}/${paths.length})`;
+      const allOption = "Select all";
+      const noneOption = "Select none";
+      const cancelOption = "Cancel";
+      const pathOptions = paths.map((path) => `${selected.has(path) ? "[x]" : "[ ]"} ${path}`);
+
+      const choice = await ctx.ui.select(title, [confirmOption, ...pathOptions, allOption, noneOption, cancelOption]);
+      if (!choice || choice === cancelOption) return null;
+
+      if (choice === confirmOption) return paths.filter((path) => selected.has(path));
+
+      if (choice === allOption) {
+        for (const path of paths) selected.add(path);
+        continue;
+      }
+
+      if (choice === noneOption) {
+        selected.clear();
+        continue;
+      }
+
+      const path = paths[pathOptions.indexOf(choice)];
+      if (!path) continue;
+      if (selected.has(path)) selected.delete(path);
+      else selected.add(path);
+    }
+  }
+
+  private async promptPathScopedTarget(point: RestorePoint, ctx: ExtensionContext): Promise<RestoreTarget | null> {
+    const turns = this.checkpointsSincePoint(point);
+    const paths = await this.collectTouchedPaths(turns);
+    if (paths.length === 0) {
+      ctx.ui.notify("No agent-touched paths found for the selected turn(s)", "info");
+      return null;
+    }
+
+    const selected = await this.selectPaths(
+      `Restore agent-touched paths from rev ${point.revision.slice(0, 12)} (${turns.length} turn(s))`,
+      paths,
+      ctx,
+    );
+    if (!selected || selected.length === 0) return null;
+
+    return { mode: "paths", revision: point.revision, paths: selected };
+  }
+
+  private describeRestoreTarget(target: RestoreTarget): string {
+    if (target.mode === "paths") return `${target.paths.length} path(s) from rev ${target.revision.slice(0, 12)}`;
+
+    const base = target.mode === "operation"
+      ? `op restore ${target.operationId.slice(0, 12)}`
+      : `files from rev ${target.revision.slice(0, 12)}`;
+    const kept = new Set((target.keepPaths ?? []).flatMap((keep) => keep.paths)).size;
+    return kept > 0 ? `${base} (kept ${kept} user-edited path(s))` : base;
+  }
+
+  // Between two snapshots taken while the agent was idle, every changed path is the user's.
+  private async detectUserEdits(baseline: string, revision: string): Promise<UserEditsSnapshot | undefined> {
+    if (baseline === revision) return undefined;
+    const paths = (await this.diffRevisions(baseline, revision, { format: "name-only", ignoreWorkingCopy: true }))
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean);
+    if (paths.length === 0) return undefined;
+    return { paths, revision };
+  }
+
+  // Paths changed during a turn that the agent's write/edit tools never touched were edited by the user
+  // while the agent ran. Files changed through bash can't be attributed, so they are counted as well.
+  private async detectTurnUserEdits(
+    preRevision: string,
+    postRevision: string,
+    ctx: ExtensionContext,
+  ): Promise<UserEditsSnapshot | undefined> {
+    const changed = await this.detectUserEdits(preRevision, postRevision);
+    const paths = changed?.paths.filter((path) => !this.agentWrites.has(resolve(ctx.cwd, path))) ?? [];
+    return paths.length > 0 ? { paths, revision: postRevision } : undefined;
+  }
+
+  private async withUserEditsChoice(
+    target: RestoreTarget,
+    point: RestorePoint | null,
+    ctx: ExtensionContext,
+  ): Promise<RestoreTarget | null> {
+    if (target.mode === "paths" || !point || !ctx.hasUI) return target;
+
+    // Later snapshots win: they hold the most recent version of a path the user touched. Edits made since
+    // the agent last stopped are not on any checkpoint yet, so they are snapshotted here.
+    const latest = new Map<string, string>();
+    const snapshots = this.checkpointsSincePoint(point).flatMap((cp) => [cp.userEdits, cp.turnUserEdits]);
+    try {
+      const baseline = await this.userEditsBaseline();
+      if (baseline) snapshots.push(await this.detectUserEdits(baseline, await this.currentRevision()));
+    } catch {
+      // fall back to the edits recorded on checkpoints
+    }
+    for (const snapshot of snapshots) {
+      // Edits from before the restore point are already part of the state being restored.
+      if (!snapshot || snapshot.revision === point.revision) continue;
+      for (const path of snapshot.paths) latest.set(path, snapshot.revision);
+    }
+    if (latest.size === 0) return target;
+
+    const keepOption = `Restore and keep my edits (${latest.size} file(s))`;
+    const discardOption = "Restore everything (discard my edits)";
+    const preview = [...latest.keys()].slice(0, 5).join(", ") + (latest.size > 5 ? ", …" : "");
+    const title = `You edited files outside the agent's changes: ${preview}`;
+    const choice = await ctx.ui.select(title, [keepOption, discardOption, "Cancel"]);
+    if (!choice || choice === "Cancel") return null;
+    if (choice === discardOption) return target;
+
+    const byRevision = new Map<string, string[]>();
+    for (const [path, revision] of latest) {
+      byRevision.set(revision, [...(byRevision.get(revision) ?? []), path]);
+    }
+    return { ...target, keepPaths: [...byRevision].map(([revision, paths]) => ({ revision, paths })) };
+  }
+
+  private async restoreWithUndo(target: RestoreTarget, ctx: ExtensionContext): Promise<boolean> {
     try {
       const beforeOp = await this.currentOperationInfo();
       if (target.mode === "operation") {
         await this.restoreToOperation(target.operationId);
+      } else if (target.mode === "paths") {
+        await this.restoreFilesFromRevision(target.revision, target.paths);
       } else {
         await this.restoreFilesFromRevision(target.revision);
       }
-      this.lastRestoreOperationId = beforeOp.id;
+      if (target.mode !== "paths") {
+        for (const keep of target.keepPaths ?? []) {
+          await this.restoreFilesFromRevision(keep.revision, keep.paths);
+        }
+      }
+      const afterOp = await this.currentOperationInfo();
+      this.recordRewind(this.describeRestoreTarget(target), beforeOp, afterOp);
       return true;
     } catch (error) {
       ctx.ui.notify(`Failed to restore: ${String(error)}`, "error");
@@ -1386,37 +2604,445 @@ export class PiJjRuntime {
     }
   }
 
-  async handleSessionStart(ctx: ExtensionContext) {
-    await this.initialize(ctx);
+  private recordRewind(label: string, beforeOp: { id: string; short: string }, afterOp: { id: string; short: string }) {
+    const record: RewindRecord = {
+      id: randomUUID(),
+      label,
+      beforeOperationId: beforeOp.id,
+      beforeOperationIdShort: beforeOp.short,
+      afterOperationId: afterOp.id,
+      afterOperationIdShort: afterOp.short,
+      timestamp: Date.now(),
+    };
+    this.undoStack.push(record);
+    this.redoStack = [];
+    this.pi.appendEntry(REWIND_ENTRY_TYPE, {
+      action: "restore",
+      record,
+      sessionId: this.sessionId,
+    });
   }
 
-  async handleSessionSwitch(ctx: ExtensionContext) {
-    await this.initialize(ctx);
+  private async revisionAtOperation(operationId: string): Promise<string | null> {
+    const result = await this.pi.exec("jj", ["--at-op", operationId, "log", "-r", "@", "--no-graph", "-T", "commit_id"]);
+    if (result.code !== 0) return null;
+    return result.stdout.trim() || null;
   }
 
-  async handleBeforeAgentStart(ctx: ExtensionContext) {
-    if (!ctx.hasUI) return;
-    if (this.isJjRepo) return;
-    if (!this.needsInitPrompt) return;
-    if (this.initPromptShown || this.initInProgress) return;
-
-    this.initPromptShown = true;
-    const choice = await ctx.ui.select("Initialize this git repo for jj?", [
-      "Yes (jj git init --colocate)",
-      "Not now",
-    ]);
+  private async resolvePostRevision(checkpoint: Checkpoint): Promise<string | null> {
+    if (checkpoint.postRevision) return checkpoint.postRevision;
+    if (!checkpoint.postOperationId) return null;
+    return this.revisionAtOperation(checkpoint.postOperationId);
+  }
 
-    if (!choice?.startsWith("Yes")) return;
+  private async rewindPreview(target: RestoreTarget | null): Promise<string[]> {
+    const lines: string[] = [];
 
-    this.initInProgress = true;
-    try {
-      const ok = await this.initJjInGitRepo(ctx);
+    if (target && target.mode !== "paths") {
+      try {
+        const revision = target.mode === "operation" ? await this.revisionAtOperation(target.operationId) : target.revision;
+        if (revision) {
+          const stat = this.summarizeDiffStat(await this.diffRevisions("@", revision, { format: "stat" }));
+          if (stat.files === 0) {
+            lines.push("restore: no file changes vs working copy");
+          } else {
+            lines.push(`restore: ${stat.files} file(s) +${stat.added} -${stat.removed} vs working copy`);
+            lines.push(`  ${stat.topPaths.join(", ")}${stat.files > stat.topPaths.length ? ", …" : ""}`);
+          }
+        }
+      } catch {
+        // preview is best-effort; the dialog still works without it
+      }
+    }
+
+    if (!this.pendingCheckpoint) {
+      try {
+        const baseline = await this.userEditsBaseline();
+        if (!baseline) return lines;
+        const stat = this.summarizeDiffStat(await this.diffRevisions(baseline, "@", { format: "stat" }));
+        if (stat.files > 0) {
+          lines.push(
+            `warning: ${stat.files} file(s) edited since the agent's last turn would be overwritten (${stat.topPaths.join(", ")})`,
+          );
+        }
+      } catch {
+        // same as above
+      }
+    }
+
+    return lines;
+  }
+
+  // Anything that differs from where the last agent run ended (or the last rewind, if newer)
+  // was edited by the user outside agent turns.
+  private async userEditsBaseline(): Promise<string | null> {
+    const lastTurn = this.getOrderedCheckpoints().find((cp) => cp.postRevision && !cp.imported);
+    const lastRewind = this.undoStack[this.undoStack.length - 1];
+    if (lastRewind && (!lastTurn || lastRewind.timestamp > lastTurn.timestamp)) {
+      return this.revisionAtOperation(lastRewind.afterOperationId);
+    }
+    return lastTurn ? (lastTurn.agentEndRevision ?? lastTurn.postRevision!) : null;
+  }
+
+  private rewindDialogTitle(preview: string[]): string {
+    return ["jj rewind options", ...preview].join("\n");
+  }
+
+  private async conflictedPaths(revision?: string): Promise<string[]> {
+    const args = revision ? ["--ignore-working-copy", "resolve", "--list", "-r", revision] : ["resolve", "--list"];
+    const result = await this.pi.exec("jj", args);
+    if (result.code !== 0) return [];
+
+    return result.stdout
+      .split("\n")
+      .map((line) => line.split(/\s{2,}/)[0]?.trim() ?? "")
+      .filter(Boolean);
+  }
+
+  private async createMarkedChange(parent: string): Promise<string> {
+    const marker = `pi-jj-revert-${randomUUID()}`;
+    await this.execJj(["new", "--no-edit", parent, "-m", marker]);
+
+    const created = await this.execJj([
+      "log",
+      "-r",
+      `description(substring:"${marker}")`,
+      "--no-graph",
+      "-T",
+      "change_id ++ \"\\n\"",
+    ]);
+    const changeId = created.stdout.trim().split("\n")[0]?.trim();
+    if (!changeId) throw new Error("Could not locate temporary revert change");
+    return changeId;
+  }
+
+  private async applyTurnInverse(checkpoint: Checkpoint, postRevision: string) {
+    // Build a commit that undoes the turn (parent = post-turn state, content = pre-turn state),
+    // rebase it onto @ so jj merges it with later work, then fold it into the working copy.
+    // The recorded post revision is usually an obsolete version of @ (same change id), so it is never
+    // used as a parent: a temporary change off root() takes its content instead.
+    const base = await this.createMarkedChange("root()");
+    await this.execJj(["restore", "--from", postRevision, "--into", base]);
+    const revertChange = await this.createMarkedChange(base);
+
+    await this.execJj(["restore", "--from", checkpoint.revision, "--into", revertChange]);
+    await this.execJj(["rebase", "-r", revertChange, "-d", "@"]);
+    await this.execJj(["describe", revertChange, "-m", ""]);
+    await this.execJj(["squash", "--from", revertChange, "--into", "@"]);
+    await this.execJj(["abandon", base]);
+  }
+
+  private async revertCheckpointTurn(checkpoint: Checkpoint, ctx: ExtensionContext): Promise<boolean> {
+    const postRevision = await this.resolvePostRevision(checkpoint);
+    if (!postRevision) {
+      ctx.ui.notify("Checkpoint has no post-turn state (created before post-turn tracking)", "warning");
+      return false;
+    }
+
+    let before: { revision: string; change: { id: string; short: string }; operation: { id: string; short: string } };
+    try {
+      before = {
+        revision: await this.currentRevision(),
+        change: await this.currentChangeInfo(),
+        operation: await this.currentOperationInfo(),
+      };
+    } catch (error) {
+      ctx.ui.notify(`Failed to revert turn: ${String(error)}`, "error");
+      return false;
+    }
+
+    try {
+      await this.applyTurnInverse(checkpoint, postRevision);
+    } catch (error) {
+      await this.pi.exec("jj", ["op", "restore", before.operation.id]);
+      ctx.ui.notify(`Failed to revert turn: ${String(error)}`, "error");
+      return false;
+    }
+
+    const conflicts = await this.conflictedPaths();
+    const afterRevision = await this.currentRevision().catch(() => undefined);
+    const afterOp = await this.currentOperationInfo().catch(() => null);
+
+    if (afterOp) {
+      this.recordRewind(`revert turn ${checkpoint.entryId.slice(0, 8)}`, before.operation, afterOp);
+    }
+
+    this.pi.appendEntry(TURN_REVERT_ENTRY_TYPE, {
+      revertedEntryId: checkpoint.entryId,
+      revertedRevision: checkpoint.revision,
+      revertedPostRevision: postRevision,
+      conflicts,
+      sessionId: this.sessionId,
+    });
+
+    // The revert marker entry is the new leaf; key the resulting checkpoint to it.
+    const revertEntryId = ctx.sessionManager.getLeafId?.();
+    if (revertEntryId) {
+      const revertCheckpoint: Checkpoint = {
+        entryId: revertEntryId,
+        revision: before.revision,
+        timestamp: Date.now(),
+        changeId: before.change.id,
+        changeIdShort: before.change.short,
+        operationId: before.operation.id,
+        operationIdShort: before.operation.short,
+        postOperationId: afterOp?.id,
+        postOperationIdShort: afterOp?.short,
+        postRevision: afterRevision,
+      };
+
+      await this.saveCheckpoint(ctx, revertCheckpoint);
+      this.setStatus(ctx);
+    }
+
+    if (conflicts.length > 0) {
+      const listed = conflicts.slice(0, 10).map((path) => `- ${path}`);
+      const suffix = conflicts.length > listed.length ? `\n...and ${conflicts.length - listed.length} more` : "";
+      ctx.ui.notify(
+        `Reverted turn ${checkpoint.entryId.slice(0, 8)} with ${conflicts.length} jj conflict(s):\n${listed.join("\n")}${suffix}`,
+        "warning",
+      );
+    } else {
+      ctx.ui.notify(`Reverted turn ${checkpoint.entryId.slice(0, 8)} (later turns kept)`, "info");
+    }
+
+    return true;
+  }
+
+  private rebuildRewindHistoryFromSession(ctx: ExtensionContext) {
+    this.undoStack = [];
+    this.redoStack = [];
+
+    const entries = ctx.sessionManager.getEntries();
+    for (const entry of entries) {
+      if (entry.type !== "custom") continue;
+      if (entry.customType !== REWIND_ENTRY_TYPE) continue;
+
+      const data = entry.data as {
+        sessionId?: string;
+        action?: "restore" | "undo" | "redo" | string;
+        record?: RewindRecord;
+        rewindIds?: string[];
+      };
+      if (this.sessionId && data.sessionId && data.sessionId !== this.sessionId) continue;
+
+      if (data.action === "restore") {
+        if (!data.record?.id || !data.record.beforeOperationId || !data.record.afterOperationId) continue;
+        this.undoStack.push(data.record);
+        this.redoStack = [];
+        continue;
+      }
+
+      if (data.action !== "undo" && data.action !== "redo") continue;
+      const [from, to] = data.action === "undo" ? [this.undoStack, this.redoStack] : [this.redoStack, this.undoStack];
+
+      for (const id of data.rewindIds ?? []) {
+        const index = from.findIndex((record) => record.id === id);
+        if (index < 0) continue;
+        const [record] = from.splice(index, 1);
+        if (record) to.push(record);
+      }
+    }
+  }
+
+  // `jj op restore` drops everything done since the rewind being jumped over. Snapshot the working copy,
+  // and if @ moved on from where that rewind left it, confirm and report the current operation so the
+  // work stays recoverable. Op restores create new operations, so @ is compared rather than op IDs.
+  private async confirmRewindJump(
+    direction: "undo" | "redo",
+    expectedOperationId: string,
+    ctx: ExtensionContext,
+  ): Promise<{ id: string; short: string } | null | false> {
+    const current = await this.currentOperationInfo();
+    const expectedRevision = await this.revisionAtOperation(expectedOperationId);
+    if (expectedRevision && expectedRevision === (await this.currentRevision({ ignoreWorkingCopy: true }))) return null;
+
+    if (ctx.hasUI) {
+      const confirmed = await ctx.ui.confirm(
+        `${direction === "undo" ? "Undo" : "Redo"} discards later changes`,
+        [
+          `The repo changed after this rewind (now at op ${current.short}); ${direction} restores an earlier operation and drops those changes.`,
+          ...(await this.rewindPreview({ mode: "operation", operationId: expectedOperationId })),
+          `They stay recoverable with: jj op restore ${current.id}`,
+        ].join("\n"),
+      );
+      if (!confirmed) return false;
+    }
+    return current;
+  }
+
+  private async undoRewinds(levels: number, ctx: ExtensionContext): Promise<boolean> {
+    // Top of the stack first, so replaying the entry moves records onto the redo stack in reverse order.
+    const records = this.undoStack.slice(-Math.max(1, levels)).reverse();
+    const deepest = records[records.length - 1];
+    if (!deepest) {
+      ctx.ui.notify("Nothing to undo", "info");
+      return false;
+    }
+
+    let discarded: { id: string; short: string } | null;
+    try {
+      const jump = await this.confirmRewindJump("undo", records[0]!.afterOperationId, ctx);
+      if (jump === false) return false;
+      discarded = jump;
+      await this.restoreToOperation(deepest.beforeOperationId);
+    } catch (error) {
+      ctx.ui.notify(`Failed to undo rewind: ${String(error)}`, "error");
+      return false;
+    }
+
+    for (const record of records) {
+      this.undoStack.pop();
+      this.redoStack.push(record);
+    }
+
+    this.pi.appendEntry(REWIND_ENTRY_TYPE, {
+      action: "undo",
+      rewindIds: records.map((record) => record.id),
+      discardedOperationId: discarded?.id,
+      timestamp: Date.now(),
+      sessionId: this.sessionId,
+    });
+    if (discarded) ctx.ui.notify(`Changes made after the rewind are in op ${discarded.short} (jj op restore ${discarded.id})`, "info");
+    return true;
+  }
+
+  private async redoRewinds(levels: number, ctx: ExtensionContext): Promise<boolean> {
+    const records = this.redoStack.slice(-Math.max(1, levels)).reverse();
+    const deepest = records[records.length - 1];
+    if (!deepest) {
+      ctx.ui.notify("Nothing to redo", "info");
+      return false;
+    }
+
+    let discarded: { id: string; short: string } | null;
+    try {
+      const jump = await this.confirmRewindJump("redo", records[0]!.beforeOperationId, ctx);
+      if (jump === false) return false;
+      discarded = jump;
+      await this.restoreToOperation(deepest.afterOperationId);
+    } catch (error) {
+      ctx.ui.notify(`Failed to redo rewind: ${String(error)}`, "error");
+      return false;
+    }
+
+    for (const record of records) {
+      this.redoStack.pop();
+      this.undoStack.push(record);
+    }
+
+    this.pi.appendEntry(REWIND_ENTRY_TYPE, {
+      action: "redo",
+      rewindIds: records.map((record) => record.id),
+      discardedOperationId: discarded?.id,
+      timestamp: Date.now(),
+      sessionId: this.sessionId,
+    });
+    if (discarded) ctx.ui.notify(`Changes made after the undo are in op ${discarded.short} (jj op restore ${discarded.id})`, "info");
+    return true;
+  }
+
+  private rewindHistorySummary(): string {
+    const undoLines = [...this.undoStack].reverse().map((record, i) => `${i + 1}. ${rewindLine(record)}`);
+    const redoLines = [...this.redoStack].reverse().map((record, i) => `${i + 1}. ${rewindLine(record)}`);
+    return [
+      `undo (${undoLines.length}):`,
+      ...(undoLines.length ? undoLines : ["(none)"]),
+      `redo (${redoLines.length}):`,
+      ...(redoLines.length ? redoLines : ["(none)"]),
+    ].join("\n");
+  }
+
+  async handleSessionStart(ctx: ExtensionContext) {
+    await this.initialize(ctx);
+  }
+
+  async handleSessionSwitch(ctx: ExtensionContext) {
+    await this.initialize(ctx);
+  }
+
+  async handleSessionFork(ctx: ExtensionContext) {
+    await this.initialize(ctx);
+  }
+
+  async handleBeforeAgentStart(event: BeforeAgentStartEventLike, ctx: ExtensionContext) {
+    this.agentStartedAt = Date.now();
+    await this.maybePromptForInit(ctx);
+
+    const block = await this.buildJjContextBlock(ctx).catch(() => null);
+    if (!block) return;
+    return { systemPrompt: `${event.systemPrompt}\n\n${block}` };
+  }
+
+  private async buildJjContextBlock(ctx: ExtensionContext): Promise<string | null> {
+    const settings = this.loadSettings();
+    if (!settings.injectJjContext || !this.isJjRepo) return null;
+
+    // Read-only queries against the last snapshot: this runs before every prompt and must not snapshot @ itself.
+    const snapshot = await this.collectStackStatusSnapshot(ctx);
+    const conflicts = await this.conflictedPaths("@");
+    const current = snapshot.stackViews.find((view) => view.node.revision === snapshot.revision);
+
+    const header = [
+      `working copy (@): change ${snapshot.change.short} commit ${snapshot.revision.slice(0, 12)}` +
+        (current ? ` "${current.node.description}"` : ""),
+      conflicts.length > 0
+        ? `conflicts in @: ${conflicts.slice(0, 10).join(", ")}${conflicts.length > 10 ? ` (+${conflicts.length - 10} more)` : ""}`
+        : "conflicts in @: none",
+      `last checkpoint: ${snapshot.latestCheckpoint ? this.checkpointLabel(snapshot.latestCheckpoint) : "-"}`,
+      snapshot.prSnapshot
+        ? `PR state (${snapshot.prSnapshot.action ?? "unknown"} ${formatAge(snapshot.prSnapshot.recordedAt)}): ${this.prStateSummary(snapshot.prSnapshot.records)}`
+        : "PR state: not published yet",
+      `stack (oldest → newest, ${snapshot.stackViews.length} mutable change(s)):`,
+    ];
+    const open = "<jj-context>";
+    const close = "</jj-context>";
+
+    // Spend what's left of the budget on stack entries, nearest to the tip first.
+    let budget = settings.jjContextMaxChars - [open, ...header, close].join("\n").length - 1;
+    const stackLines: string[] = [];
+    for (let i = snapshot.stackViews.length - 1; i >= 0; i--) {
+      const view = snapshot.stackViews[i]!;
+      const marker = view === current ? " <- @" : "";
+      const line = `- ${view.node.changeIdShort} ${view.node.description} (${view.prLabel}${view.prRecord?.branch ? ` ${view.prRecord.branch}` : ""})${marker}`;
+      const omittedNote = `- … ${i} older change(s) omitted`.length + 1;
+      if (line.length + 1 + (i > 0 ? omittedNote : 0) > budget) {
+        stackLines.unshift(`- … ${i + 1} older change(s) omitted`);
+        break;
+      }
+      stackLines.unshift(line);
+      budget -= line.length + 1;
+    }
+    if (snapshot.stackViews.length === 0) stackLines.push("- (none)");
+
+    return [open, ...header, ...stackLines, close].join("\n").slice(0, settings.jjContextMaxChars);
+  }
+
+  private async maybePromptForInit(ctx: ExtensionContext) {
+    if (!ctx.hasUI) return;
+    if (this.isJjRepo) return;
+    if (!this.needsInitPrompt) return;
+    if (this.initPromptShown || this.initInProgress) return;
+
+    this.initPromptShown = true;
+    const choice = await ctx.ui.select("Initialize this git repo for jj?", [
+      "Yes (jj git init --colocate)",
+      "Not now",
+    ]);
+
+    if (!choice?.startsWith("Yes")) return;
+
+    this.initInProgress = true;
+    try {
+      const ok = await this.initJjInGitRepo(ctx);
       if (!ok) {
         this.setStatus(ctx);
         return;
       }
 
       this.rebuildCheckpointsFromSession(ctx);
+      this.rebuildRewindHistoryFromSession(ctx);
+      await this.validateCheckpoints().catch(() => this.checkpointValidity.clear());
       try {
         const op = await this.currentOperationInfo();
         this.resumeCheckpointOperationId = op.id;
@@ -1431,23 +3057,200 @@ export class PiJjRuntime {
     }
   }
 
+  private async startIsolatedChange(): Promise<{ id: string; short: string }> {
+    const state = await this.execJj(["log", "-r", "@", "--no-graph", "-T", "if(empty, \"1\", \"0\") ++ if(description, \"1\", \"0\")"]);
+    // An empty, undescribed @ is already a fresh change; reuse it instead of stacking empty changes.
+    if (state.stdout.trim() !== "10") {
+      await this.execJj(["new"]);
+    }
+    return this.currentChangeInfo();
+  }
+
+  private async describeIsolatedChange(changeId: string, promptText: string) {
+    const current = await this.execJj(["log", "-r", changeId, "--no-graph", "-T", "description"]);
+    if (current.stdout.trim()) return;
+    await this.execJj(["describe", changeId, "-m", descriptionFromPrompt(promptText)]);
+  }
+
+  // The shell command a tool call will run: bash's own, or the test command of a bisect the agent starts.
+  private policyCommand(event: ToolCallEventLike): string {
+    const command = typeof event.input.command === "string" ? event.input.command : "";
+    if (event.toolName === "bash") return command;
+    if (event.toolName === "jj_stack_pr_flow" && event.input.action === "bisect") return command;
+    return "";
+  }
+
+  private async evaluateCommandPolicy(
+    event: ToolCallEventLike,
+    ctx: ExtensionContext,
+  ): Promise<{ block: true; reason: string } | undefined> {
+    const settings = this.loadSettings();
+    if (!settings.commandPolicy) return;
+
+    const command = this.policyCommand(event);
+    if (!command) return;
+
+    // User rules come first so they can allow or tighten anything the defaults cover.
+    const rule = matchCommandPolicy(command, [...settings.commandPolicyRules, ...DEFAULT_COMMAND_POLICY]);
+    if (!rule) return;
+
+    const reason = rule.reason ?? `matches /${rule.pattern}/`;
+    let outcome: PolicyDecision["outcome"];
+    if (rule.action === "allow") {
+      outcome = "allowed";
+    } else if (rule.action === "deny" || !ctx.hasUI) {
+      outcome = "blocked";
+    } else {
+      const confirmed = await ctx.ui.confirm("Allow agent command?", `${command}\n\nThis command ${reason}.`);
+      outcome = confirmed ? "confirmed" : "declined";
+    }
+
+    const decision: PolicyDecision = {
+      toolCallId: event.toolCallId,
+      toolName: event.toolName,
+      command,
+      rule,
+      outcome,
+      timestamp: Date.now(),
+    };
+    this.pi.appendEntry(POLICY_DECISION_ENTRY_TYPE, {
+      ...decision,
+      sessionId: this.sessionId,
+    });
+
+    if (outcome === "allowed" || outcome === "confirmed") return;
+    if (outcome === "declined") {
+      return { block: true, reason: `The user declined this command (pi-jj policy: it ${reason}).` };
+    }
+    return {
+      block: true,
+      reason: `Blocked by pi-jj command policy: this command ${reason}.` +
+        (rule.action === "confirm" ? " It needs interactive confirmation, which is unavailable." : "") +
+        " Ask the user to run it themselves if it is really needed.",
+    };
+  }
+
+  async handleToolCall(event: ToolCallEventLike, ctx: ExtensionContext): Promise<{ block: true; reason: string } | undefined> {
+    const blocked = await this.evaluateCommandPolicy(event, ctx);
+    if (blocked) return blocked;
+
+    if (!this.isJjRepo) return;
+    const summary = this.shouldSnapshotToolCall(event);
+    if (summary === null) return;
+
+    const userEntry = this.findLatestUserEntry(ctx.sessionManager);
+    if (!userEntry) return;
+
+    try {
+      const revision = await this.currentRevision();
+      const operation = await this.currentOperationInfo();
+      const snapshot: ToolSnapshot = {
+        id: randomUUID(),
+        promptEntryId: userEntry.id,
+        turnIndex: this.currentTurnIndex,
+        toolCallId: event.toolCallId,
+        toolName: event.toolName,
+        summary,
+        revision,
+        operationId: operation.id,
+        operationIdShort: operation.short,
+        timestamp: Date.now(),
+      };
+      this.toolSnapshots.push(snapshot);
+      this.pi.appendEntry(TOOL_SNAPSHOT_ENTRY_TYPE, {
+        ...snapshot,
+        sessionId: this.sessionId,
+      });
+    } catch {
+      // a missed snapshot must never block the tool call
+    }
+  }
+
+  private async showToolSnapshotActions(snapshot: ToolSnapshot, ctx: ExtensionContext) {
+    const action = await ctx.ui.select(`Before ${snapshot.toolName}: ${snapshot.summary}`, [
+      "Restore to before this tool call",
+      "Show diffstat vs working copy",
+      "Copy revision to editor",
+      "Cancel",
+    ]);
+    if (!action || action === "Cancel") return;
+
+    if (action === "Copy revision to editor") {
+      ctx.ui.setEditorText(snapshot.revision);
+      ctx.ui.notify("Revision copied to editor", "info");
+      return;
+    }
+
+    if (!(await this.ensureJjRepo())) {
+      ctx.ui.notify("Not a jj repo", "warning");
+      return;
+    }
+
+    if (action === "Show diffstat vs working copy") {
+      try {
+        const diff = await this.diffRevisions(snapshot.revision, "@", { format: "stat" });
+        ctx.ui.notify(this.formatDiffOutput(`rev ${snapshot.revision.slice(0, 12)} → @`, diff), "info");
+      } catch (error) {
+        ctx.ui.notify(`Failed to diff snapshot: ${String(error)}`, "error");
+      }
+      return;
+    }
+
+    const target: RestoreTarget = this.loadSettings().restoreMode === "operation"
+      ? { mode: "operation", operationId: snapshot.operationId }
+      : { mode: "file", revision: snapshot.revision };
+    const success = await this.restoreWithUndo(target, ctx);
+    if (success) {
+      ctx.ui.notify(`Restored to before ${snapshot.toolName} (${snapshot.summary})`, "info");
+    }
+  }
+
+  handleToolResult(event: ToolResultEventLike, ctx: ExtensionContext) {
+    if (!this.pendingCheckpoint || event.isError) return;
+    if (event.toolName !== "write" && event.toolName !== "edit") return;
+
+    const path = event.input.path;
+    if (typeof path === "string" && path) this.agentWrites.add(resolve(ctx.cwd, path));
+  }
+
   async handleTurnStart(event: TurnEventLike) {
+    this.currentTurnIndex = event.turnIndex;
     if (!(await this.ensureJjRepo())) return;
-    if (event.turnIndex !== 0) return;
+    const settings = this.loadSettings();
+    if (event.turnIndex !== 0 && settings.checkpointMode !== "turn") return;
 
     try {
+      // Taken before the turn touches anything: whatever changed since the agent last stopped is the user's.
+      const baseline = await this.userEditsBaseline().catch(() => null);
       const revision = await this.currentRevision();
       const change = await this.currentChangeInfo();
       const operation = await this.currentOperationInfo();
+      const userEdits = baseline ? await this.detectUserEdits(baseline, revision).catch(() => undefined) : undefined;
+
+      if (event.turnIndex === 0) {
+        this.promptChange = null;
+        if (settings.isolatedTurns) {
+          try {
+            this.promptChange = await this.startIsolatedChange();
+          } catch {
+            // fall back to recording into the current change
+          }
+        }
+      }
 
       this.pendingCheckpoint = {
         revision,
         timestamp: event.timestamp,
+        turnIndex: event.turnIndex,
         changeId: change.id,
         changeIdShort: change.short,
         operationId: operation.id,
         operationIdShort: operation.short,
+        promptChangeId: this.promptChange?.id,
+        promptChangeIdShort: this.promptChange?.short,
+        userEdits,
       };
+      this.agentWrites.clear();
     } catch {
       this.pendingCheckpoint = null;
     }
@@ -1455,8 +3258,9 @@ export class PiJjRuntime {
 
   async handleTurnEnd(event: TurnEndEventLike, ctx: ExtensionContext) {
     if (!(await this.ensureJjRepo())) return;
-    if (event.turnIndex !== 0) return;
-    if (!this.pendingCheckpoint) return;
+    const perTurn = this.loadSettings().checkpointMode === "turn";
+    if (event.turnIndex !== 0 && !perTurn) return;
+    if (!this.pendingCheckpoint || this.pendingCheckpoint.turnIndex !== event.turnIndex) return;
 
     const userEntry = this.findLatestUserEntry(ctx.sessionManager);
     if (!userEntry) {
@@ -1464,18 +3268,38 @@ export class PiJjRuntime {
       return;
     }
 
+    // Per-turn checkpoints are keyed to the turn's assistant message so /tree can target them individually.
+    // Without one (e.g. an aborted turn) the key still has to be unique per turn, or each turn would
+    // overwrite the previous one; such checkpoints are reachable from the picker and the prompt's entry.
+    const assistantEntry = perTurn ? this.findLatestAssistantEntry(ctx.sessionManager) : null;
+    const entryId = perTurn ? (assistantEntry?.id ?? `${userEntry.id}:turn-${event.turnIndex}`) : userEntry.id;
+
+    // Describing rewrites the prompt change, so it has to happen before the post-turn state is captured.
+    if (this.pendingCheckpoint.promptChangeId) {
+      try {
+        await this.describeIsolatedChange(this.pendingCheckpoint.promptChangeId, this.entryText(ctx, userEntry.id));
+      } catch {
+        // leave the change undescribed; it still shows up in jj log
+      }
+    }
+
     let postOpId: string | undefined;
     let postOpShort: string | undefined;
+    let postRevision: string | undefined;
     try {
+      postRevision = await this.currentRevision();
       const postOp = await this.currentOperationInfo();
       postOpId = postOp.id;
       postOpShort = postOp.short;
     } catch {
       // pre-turn op will be used as fallback
     }
+    const turnUserEdits = postRevision
+      ? await this.detectTurnUserEdits(this.pendingCheckpoint.revision, postRevision, ctx).catch(() => undefined)
+      : undefined;
 
     const checkpoint: Checkpoint = {
-      entryId: userEntry.id,
+      entryId,
       revision: this.pendingCheckpoint.revision,
       timestamp: this.pendingCheckpoint.timestamp,
       changeId: this.pendingCheckpoint.changeId,
@@ -1484,17 +3308,16 @@ export class PiJjRuntime {
       operationIdShort: this.pendingCheckpoint.operationIdShort,
       postOperationId: postOpId,
       postOperationIdShort: postOpShort,
+      postRevision,
+      promptEntryId: perTurn ? userEntry.id : undefined,
+      turnIndex: event.turnIndex,
+      promptChangeId: this.pendingCheckpoint.promptChangeId,
+      promptChangeIdShort: this.pendingCheckpoint.promptChangeIdShort,
+      userEdits: this.pendingCheckpoint.userEdits,
+      turnUserEdits,
     };
 
-    this.checkpoints.set(userEntry.id, checkpoint);
-    this.pruneCheckpoints();
-
-    this.pi.appendEntry(CHECKPOINT_ENTRY_TYPE, {
-      ...checkpoint,
-      sessionId: this.sessionId,
-    });
-
-    this.maybeLabelEntry(ctx, userEntry.id, checkpoint);
+    await this.saveCheckpoint(ctx, checkpoint);
 
     this.pendingCheckpoint = null;
     this.setStatus(ctx);
@@ -1504,11 +3327,33 @@ export class PiJjRuntime {
     }
   }
 
-  async handleSessionBeforeFork(event: ForkEventLike, ctx: ExtensionContext) {
+  async handleAgentEnd(ctx: ExtensionContext) {
+    if (!(await this.ensureJjRepo())) return;
+
+    // In prompt mode the checkpoint's post state is taken after the first turn, so later turns of the
+    // same prompt would look like user edits; remember where the whole run ended instead.
+    const latest = this.getOrderedCheckpoints().find((cp) => !cp.imported);
+    if (!latest?.postRevision || latest.timestamp < this.agentStartedAt) return;
+
+    try {
+      const revision = await this.currentRevision();
+      if (revision === latest.agentEndRevision) return;
+      latest.agentEndRevision = revision;
+      this.pi.appendEntry(CHECKPOINT_ENTRY_TYPE, {
+        ...latest,
+        sessionId: this.sessionId,
+      });
+    } catch {
+      // the post-turn revision remains the baseline
+    }
+  }
+
+  async handleSessionBeforeFork(event: ForkEventLike, ctx: ExtensionContext) {
     if (!ctx.hasUI) return;
     if (!(await this.ensureJjRepo())) return;
 
     const restoreTarget = this.resolveRestoreTarget(event.entryId, ctx);
+    const restorePoint = this.resolveRestorePoint(event.entryId, ctx);
     const options = ["Conversation only (keep current files)"];
 
     if (restoreTarget) {
@@ -1516,11 +3361,16 @@ export class PiJjRuntime {
       options.push("Restore only (keep conversation)");
     }
 
-    if (this.lastRestoreOperationId) {
+    if (restorePoint) {
+      options.push("Restore agent-touched paths + conversation");
+    }
+
+    if (this.undoStack.length > 0) {
       options.push("Undo last rewind");
     }
 
-    const choice = await ctx.ui.select("jj rewind options", options);
+    const preview = await this.rewindPreview(restoreTarget);
+    const choice = await ctx.ui.select(this.rewindDialogTitle(preview), options);
     if (!choice) return { cancel: true };
 
     if (choice.startsWith("Conversation only")) {
@@ -1528,22 +3378,35 @@ export class PiJjRuntime {
     }
 
     if (choice === "Undo last rewind") {
-      const undoOpId = this.lastRestoreOperationId;
-      if (!undoOpId) return { cancel: true };
-
-      const success = await this.restoreWithUndo({ mode: "operation", operationId: undoOpId }, ctx);
+      const success = await this.undoRewinds(1, ctx);
       if (success) {
         ctx.ui.notify("Rewind undone", "info");
       }
       return { cancel: true };
     }
 
+    if (choice === "Restore agent-touched paths + conversation") {
+      if (!restorePoint) return { cancel: true };
+
+      const pathsTarget = await this.promptPathScopedTarget(restorePoint, ctx);
+      if (!pathsTarget) return { cancel: true };
+
+      const success = await this.restoreWithUndo(pathsTarget, ctx);
+      if (!success) return { cancel: true };
+
+      ctx.ui.notify("Restored agent-touched paths to checkpoint", "info");
+      return;
+    }
+
     if (!restoreTarget) {
       ctx.ui.notify("No jj checkpoint found for that point", "warning");
       return { cancel: true };
     }
 
-    const success = await this.restoreWithUndo(restoreTarget, ctx);
+    const target = await this.withUserEditsChoice(restoreTarget, restorePoint, ctx);
+    if (!target) return { cancel: true };
+
+    const success = await this.restoreWithUndo(target, ctx);
     if (!success) {
       return { cancel: true };
     }
@@ -1555,203 +3418,1082 @@ export class PiJjRuntime {
     }
   }
 
-  async handleSessionBeforeTree(event: TreeEventLike, ctx: ExtensionContext) {
-    if (!ctx.hasUI) return;
-    if (!(await this.ensureJjRepo())) return;
-
-    const targetId = event.preparation.targetId;
-    const restoreTarget = this.resolveRestoreTarget(targetId, ctx);
-
-    const options = ["Keep current files"];
-    if (restoreTarget) options.push("Restore to selected point");
-    if (this.lastRestoreOperationId) options.push("Undo last rewind");
-    options.push("Cancel navigation");
-
-    const choice = await ctx.ui.select("jj rewind options", options);
-    if (!choice || choice === "Cancel navigation") {
-      return { cancel: true };
+  async handleSessionBeforeTree(event: TreeEventLike, ctx: ExtensionContext) {
+    if (!ctx.hasUI) return;
+    if (!(await this.ensureJjRepo())) return;
+
+    const targetId = event.preparation.targetId;
+    const restoreTarget = this.resolveRestoreTarget(targetId, ctx);
+    const restorePoint = this.resolveRestorePoint(targetId, ctx);
+    const turnCheckpoint = this.checkpoints.get(targetId) ?? this.getTurnCheckpointsForPrompt(targetId)[0];
+
+    const options = ["Keep current files"];
+    if (restoreTarget) options.push("Restore to selected point");
+    if (restorePoint) options.push("Restore agent-touched paths only");
+    if (turnCheckpoint) options.push("Revert this turn only (keep later turns)");
+    if (this.undoStack.length > 0) options.push("Undo last rewind");
+    options.push("Cancel navigation");
+
+    const preview = await this.rewindPreview(restoreTarget);
+    const choice = await ctx.ui.select(this.rewindDialogTitle(preview), options);
+    if (!choice || choice === "Cancel navigation") {
+      return { cancel: true };
+    }
+
+    if (choice === "Keep current files") {
+      return;
+    }
+
+    if (choice === "Undo last rewind") {
+      const success = await this.undoRewinds(1, ctx);
+      if (success) {
+        ctx.ui.notify("Rewind undone", "info");
+      }
+      return { cancel: true };
+    }
+
+    if (choice === "Revert this turn only (keep later turns)") {
+      if (turnCheckpoint) await this.revertCheckpointTurn(turnCheckpoint, ctx);
+      return { cancel: true };
+    }
+
+    if (choice === "Restore agent-touched paths only") {
+      if (!restorePoint) return { cancel: true };
+
+      const pathsTarget = await this.promptPathScopedTarget(restorePoint, ctx);
+      if (!pathsTarget) return { cancel: true };
+
+      const success = await this.restoreWithUndo(pathsTarget, ctx);
+      if (!success) return { cancel: true };
+
+      ctx.ui.notify("Restored agent-touched paths to checkpoint", "info");
+      return;
+    }
+
+    if (!restoreTarget) {
+      ctx.ui.notify("No jj checkpoint found for that point", "warning");
+      return { cancel: true };
+    }
+
+    const target = await this.withUserEditsChoice(restoreTarget, restorePoint, ctx);
+    if (!target) return { cancel: true };
+
+    const success = await this.restoreWithUndo(target, ctx);
+    if (!success) {
+      return { cancel: true };
+    }
+
+    ctx.ui.notify("Restored to checkpoint", "info");
+  }
+
+  async commandJjInit(_args: string, ctx: ExtensionContext): Promise<CommandResult> {
+    if (await this.ensureJjRepo()) {
+      this.setStatus(ctx);
+      return this.report(ctx, "info", "This repo is already initialized for jj");
+    }
+
+    const isGit = await this.detectGitRepo();
+    this.isGitRepo = isGit;
+    if (!isGit) {
+      return this.report(ctx, "warning", "Current directory is not a git repo");
+    }
+
+    const ok = await this.initJjInGitRepo(ctx);
+    if (!ok) return { ok: false, message: "Failed to initialize jj" };
+
+    this.needsInitPrompt = false;
+    this.rebuildCheckpointsFromSession(ctx);
+    this.rebuildRewindHistoryFromSession(ctx);
+    await this.validateCheckpoints().catch(() => this.checkpointValidity.clear());
+    try {
+      const op = await this.currentOperationInfo();
+      this.resumeCheckpointOperationId = op.id;
+    } catch {
+      this.resumeCheckpointOperationId = null;
+    }
+
+    this.setStatus(ctx);
+    return { ok: true, message: "Initialized jj repo (colocated with git)" };
+  }
+
+  async commandJjDeinit(args: string, ctx: ExtensionContext) {
+    const isGit = await this.detectGitRepo();
+    this.isGitRepo = isGit;
+    if (!isGit) {
+      ctx.ui.notify("Current directory is not a git repo", "warning");
+      return;
+    }
+
+    const hasJj = await this.ensureJjRepo();
+    if (!hasJj) {
+      ctx.ui.notify("This repo is not initialized for jj", "info");
+      this.setStatus(ctx);
+      return;
+    }
+
+    const tokens = (args ?? "")
+      .split(/\s+/)
+      .map((t) => t.trim().toLowerCase())
+      .filter(Boolean);
+    let removeRefs = tokens.includes("full");
+    let removeCheckpointRefs = tokens.includes("--remove-checkpoint-refs");
+
+    if (!removeRefs && ctx.hasUI) {
+      const choice = await ctx.ui.select("Deinitialize jj for this repo?", [
+        "Remove .jj only (keep refs/jj/*)",
+        "Full cleanup (.jj + refs/jj/*)",
+        "Cancel",
+      ]);
+
+      if (!choice || choice === "Cancel") {
+        ctx.ui.notify("jj deinit cancelled", "info");
+        return;
+      }
+
+      removeRefs = choice.startsWith("Full cleanup");
+    }
+
+    const checkpointRefs = await this.listGitRefs(CHECKPOINT_REF_PREFIX);
+    if (removeRefs && !removeCheckpointRefs && checkpointRefs.length > 0 && ctx.hasUI) {
+      const choice = await ctx.ui.select(`Found ${checkpointRefs.length} pi-jj checkpoint refs (${CHECKPOINT_REF_PREFIX}*)`, [
+        "Keep checkpoint refs (checkpoints stay reachable)",
+        "Remove checkpoint refs",
+        "Cancel",
+      ]);
+
+      if (!choice || choice === "Cancel") {
+        ctx.ui.notify("jj deinit cancelled", "info");
+        return;
+      }
+
+      removeCheckpointRefs = choice.startsWith("Remove");
+    }
+
+    if (ctx.hasUI) {
+      const targets = [
+        ".jj",
+        ...(removeRefs ? ["refs/jj/*"] : []),
+        ...(removeCheckpointRefs ? [`${CHECKPOINT_REF_PREFIX}*`] : []),
+      ];
+      const confirmed = await ctx.ui.confirm(
+        "Confirm jj deinit",
+        targets.length > 1
+          ? `This will remove ${targets[0]} and delete ${targets.slice(1).join(" and ")} in this git repo. Continue?`
+          : "This will remove .jj in this git repo. Continue?",
+      );
+
+      if (!confirmed) {
+        ctx.ui.notify("jj deinit cancelled", "info");
+        return;
+      }
+    }
+
+    await this.deinitJjRepo(ctx, removeRefs, removeCheckpointRefs);
+  }
+
+  private async commandCheckpointDiff(subcommand: string, tokens: string[], ctx: ExtensionContext): Promise<CommandResult> {
+    if (!(await this.ensureJjRepo())) {
+      return this.report(ctx, "warning", "Not a jj repo");
+    }
+
+    const stat = tokens.includes("--stat");
+    const refs = tokens.filter((token) => !token.startsWith("-"));
+    const selected: Checkpoint[] = [];
+    for (const ref of refs) {
+      const checkpoint = this.findCheckpointByPrefix(ref);
+      if (!checkpoint) {
+        return this.report(ctx, "warning", `No checkpoint matches "${ref}"`);
+      }
+      selected.push(checkpoint);
+    }
+
+    if (selected.length === 0) {
+      const latest = this.getOrderedCheckpoints()[0];
+      if (latest) selected.push(latest);
+    }
+
+    const [first, second] = selected;
+    if (!first) return this.report(ctx, "info", "No jj checkpoints yet");
+
+    try {
+      if (subcommand === "turn-diff") {
+        const diff = await this.diffCheckpointTurn(first, stat ? "stat" : "git");
+        return this.report(ctx, "info", this.formatDiffOutput(`turn changes (${first.entryId.slice(0, 8)})`, diff));
+      }
+
+      if (second) {
+        const [older, newer] = first.timestamp <= second.timestamp ? [first, second] : [second, first];
+        const diff = await this.diffBetweenCheckpoints(older, newer, stat ? "stat" : "git");
+        return this.report(
+          ctx,
+          "info",
+          this.formatDiffOutput(`rev ${older.revision.slice(0, 12)} → rev ${newer.revision.slice(0, 12)}`, diff),
+        );
+      }
+
+      const diff = await this.diffCheckpointToWorkingCopy(first, stat ? "stat" : "git");
+      return this.report(ctx, "info", this.formatDiffOutput(`rev ${first.revision.slice(0, 12)} → @`, diff));
+    } catch (error) {
+      return this.report(ctx, "error", `Failed to diff checkpoint: ${String(error)}`);
+    }
+  }
+
+  private async commandCheckpointVerify(tokens: string[], ctx: ExtensionContext): Promise<CommandResult<CheckpointVerifyResult>> {
+    if (!(await this.ensureJjRepo())) {
+      return this.report(ctx, "warning", "Not a jj repo");
+    }
+
+    let validity: Map<string, CheckpointValidity>;
+    try {
+      validity = await this.validateCheckpoints();
+    } catch (error) {
+      return this.report(ctx, "error", `Failed to verify checkpoints: ${String(error)}`);
+    }
+
+    const ordered = this.getOrderedCheckpoints();
+    const counts: Record<CheckpointValidity, number> = { valid: 0, "revision-only": 0, dead: 0 };
+    for (const checkpoint of ordered) {
+      counts[validity.get(checkpoint.entryId) ?? "dead"]++;
+    }
+
+    const dead = ordered.filter((cp) => validity.get(cp.entryId) === "dead");
+    const lines = [
+      `jj checkpoint health (${ordered.length})`,
+      `valid: ${counts.valid}`,
+      `revision-only (operation or post-turn state gone, file restore still works): ${counts["revision-only"]}`,
+      `dead (revision gone): ${counts.dead}`,
+    ];
+    if (dead.length > 0) {
+      lines.push("", "dead checkpoints:", ...dead.slice(0, 20).map((cp) => this.checkpointLabel(cp)));
+      if (dead.length > 20) lines.push(`...and ${dead.length - 20} more`);
+    }
+
+    const data: CheckpointVerifyResult = {
+      valid: counts.valid,
+      revisionOnly: counts["revision-only"],
+      dead: dead.map((cp) => cp.entryId),
+      hidden: false,
+    };
+    this.notifyResult(ctx, lines.join("\n"), dead.length > 0 ? "warning" : "info");
+    if (dead.length === 0) return { ok: true, message: lines.join("\n"), data };
+
+    let hide = tokens.includes("--hide-dead");
+    if (!hide && ctx.hasUI) {
+      hide = await ctx.ui.confirm("Hide dead checkpoints?", `Hide ${dead.length} dead checkpoint(s) from the picker and /tree resolution?`);
+    }
+    if (!hide) return { ok: true, message: lines.join("\n"), data };
+
+    this.hideCheckpoints(dead, ctx);
+    this.setStatus(ctx);
+    this.notifyResult(ctx, `Hid ${dead.length} dead checkpoint(s)`, "info");
+    return { ok: true, message: `${lines.join("\n")}\n\nHid ${dead.length} dead checkpoint(s)`, data: { ...data, hidden: true } };
+  }
+
+  private async createBisectWorkspace(revision: string): Promise<BisectWorkspace> {
+    const parent = await mkdtemp(join(tmpdir(), "pi-jj-bisect-"));
+    const dir = join(parent, "workspace");
+    const name = `pi-jj-bisect-${randomUUID().slice(0, 8)}`;
+    try {
+      await this.execJj(["workspace", "add", "--name", name, "-r", revision, dir]);
+    } catch (error) {
+      await rm(parent, { recursive: true, force: true });
+      throw error;
+    }
+    const workspace: BisectWorkspace = { name, dir, parent, changes: [] };
+    await this.trackBisectChange(workspace);
+    return workspace;
+  }
+
+  private async trackBisectChange(workspace: BisectWorkspace) {
+    const result = await this.execJj(["--ignore-working-copy", "log", "-r", "@", "--no-graph", "-T", "change_id"], {
+      cwd: workspace.dir,
+    });
+    const changeId = result.stdout.trim();
+    if (changeId) workspace.changes.push(changeId);
+  }
+
+  // Each `jj new` snapshots whatever the test command left behind (build output, caches) into the
+  // previous working-copy commit, and `workspace forget` keeps those commits, so abandon them all.
+  private async removeBisectWorkspace(workspace: BisectWorkspace) {
+    await this.pi.exec("jj", ["workspace", "forget", workspace.name]);
+    if (workspace.changes.length > 0) {
+      const revset = workspace.changes.map((changeId) => `present(${changeId})`).join(" | ");
+      await this.execJj(["--ignore-working-copy", "abandon", revset]);
+    }
+    await rm(workspace.parent, { recursive: true, force: true });
+  }
+
+  private async runBisectStep(
+    workspace: BisectWorkspace,
+    revision: string,
+    command: string,
+  ): Promise<{ passed: boolean; output: string }> {
+    const workspaceDir = workspace.dir;
+    await this.execJj(["new", revision], { cwd: workspaceDir });
+    await this.trackBisectChange(workspace);
+    const result = await this.pi.exec("sh", ["-c", command], { cwd: workspaceDir, timeout: BISECT_COMMAND_TIMEOUT_MS });
+    const output = [result.stdout, result.stderr].map((part) => part?.trim() ?? "").filter(Boolean).join("\n");
+    if (result.killed) {
+      return { passed: false, output: `${output}\n(killed after ${BISECT_COMMAND_TIMEOUT_MS / 1000}s timeout)`.trim() };
+    }
+    return { passed: result.code === 0, output };
+  }
+
+  private async exportCheckpoints(checkpoints: Checkpoint[], file: string, ctx: ExtensionContext): Promise<CheckpointBundle> {
+    const bundleId = randomUUID().slice(0, 8);
+    const refPrefix = `${CHECKPOINT_EXPORT_REF_PREFIX}${bundleId}/`;
+    const tempDir = await mkdtemp(join(tmpdir(), "pi-jj-export-"));
+    const gitBundleFile = join(tempDir, "checkpoints.bundle");
+    const refs: string[] = [];
+
+    try {
+      // git bundle needs refs; point temporary ones at every pre- and post-turn revision.
+      const entries: CheckpointBundle["checkpoints"] = [];
+      for (const [i, checkpoint] of checkpoints.entries()) {
+        const revisionRef = `${refPrefix}${i}-pre`;
+        await this.execGit(["update-ref", revisionRef, checkpoint.revision]);
+        refs.push(revisionRef);
+
+        let postRevisionRef: string | undefined;
+        if (checkpoint.postRevision) {
+          postRevisionRef = `${refPrefix}${i}-post`;
+          await this.execGit(["update-ref", postRevisionRef, checkpoint.postRevision]);
+          refs.push(postRevisionRef);
+        }
+
+        entries.push({
+          ...checkpoint,
+          operationId: undefined,
+          operationIdShort: undefined,
+          postOperationId: undefined,
+          postOperationIdShort: undefined,
+          pinned: undefined,
+          pinName: undefined,
+          promptText: this.checkpointPromptText(ctx, checkpoint) || undefined,
+          refs: { revision: revisionRef, postRevision: postRevisionRef },
+        });
+      }
+
+      // Commits reachable from remote-tracking refs are assumed to exist on the recipient's side; only the
+      // local-only history goes into the bundle. If nothing is local-only, no git bundle is needed at all.
+      const localOnly = await this.execGit(["rev-list", "--count", ...refs, "--not", "--remotes"]);
+      let gitBundle = "";
+      if (Number(localOnly.stdout.trim()) > 0) {
+        await this.execGit(["bundle", "create", gitBundleFile, ...refs, "--not", "--remotes"]);
+        gitBundle = (await readFile(gitBundleFile)).toString("base64");
+      }
+
+      const bundle: CheckpointBundle = {
+        format: CHECKPOINT_BUNDLE_FORMAT,
+        version: 1,
+        bundleId,
+        exportedAt: Date.now(),
+        sessionName: ctx.sessionManager.getSessionName?.(),
+        checkpoints: entries,
+        gitBundle,
+      };
+      await writeFile(file, JSON.stringify(bundle), "utf-8");
+      return bundle;
+    } finally {
+      for (const ref of refs) {
+        await this.pi.exec("git", ["update-ref", "-d", ref]);
+      }
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  private async importCheckpoints(file: string): Promise<Checkpoint[]> {
+    const bundle = JSON.parse(await readFile(file, "utf-8")) as Partial<CheckpointBundle>;
+    if (
+      bundle?.format !== CHECKPOINT_BUNDLE_FORMAT ||
+      bundle.version !== 1 ||
+      !bundle.bundleId ||
+      typeof bundle.gitBundle !== "string"
+    ) {
+      throw new Error(`${basename(file)} is not a pi-jj checkpoint bundle`);
+    }
+
+    if (bundle.gitBundle) {
+      const tempDir = await mkdtemp(join(tmpdir(), "pi-jj-import-"));
+      const gitBundleFile = join(tempDir, "checkpoints.bundle");
+      try {
+        await writeFile(gitBundleFile, Buffer.from(bundle.gitBundle, "base64"));
+        // Fails with the missing prerequisite commits when this clone lacks the exporter's remote history.
+        await this.execGit(["bundle", "verify", gitBundleFile]);
+
+        // Fetch into temporary bookmarks so `jj git import` brings the commits in as visible jj changes;
+        // deleting the bookmarks afterwards keeps the changes visible.
+        const bookmarkPrefix = `${CHECKPOINT_IMPORT_BOOKMARK_PREFIX}${bundle.bundleId}/`;
+        await this.execGit([
+          "fetch",
+          "--no-tags",
+          gitBundleFile,
+          `${CHECKPOINT_EXPORT_REF_PREFIX}${bundle.bundleId}/*:refs/heads/${bookmarkPrefix}*`,
+        ]);
+        await this.execJj(["git", "import"]);
+        await this.execJj(["bookmark", "delete", `glob:${bookmarkPrefix}*`]);
+      } finally {
+        await rm(tempDir, { recursive: true, force: true });
+      }
+    }
+
+    const imported: Checkpoint[] = [];
+    for (const entry of bundle.checkpoints ?? []) {
+      if (!entry?.entryId || !entry.revision || !entry.timestamp) continue;
+
+      let changeId = entry.changeId;
+      let changeIdShort = entry.changeIdShort;
+      const change = await this.pi.exec("jj", [
+        "log",
+        "-r",
+        entry.revision,
+        "--no-graph",
+        "-T",
+        "change_id ++ \"\\n\" ++ change_id.short()",
+      ]);
+      if (change.code === 0) {
+        const [full, short] = change.stdout.trim().split("\n");
+        changeId = full?.trim() || changeId;
+        changeIdShort = short?.trim() || changeIdShort;
+      }
+
+      imported.push({
+        entryId: `${bundle.bundleId}:${entry.entryId}`,
+        revision: entry.revision,
+        timestamp: entry.timestamp,
+        changeId,
+        changeIdShort,
+        postRevision: entry.postRevision,
+        turnIndex: entry.turnIndex,
+        stats: entry.stats,
+        imported: {
+          bundleId: bundle.bundleId,
+          sessionName: bundle.sessionName,
+          promptText: entry.promptText,
+          timestamp: Date.now(),
+        },
+      });
+    }
+
+    return imported;
+  }
+
+  private async commandCheckpointExport(tokens: string[], ctx: ExtensionContext): Promise<CommandResult<CheckpointTransferResult>> {
+    const [fileArg, ...entryPrefixes] = tokens;
+    if (!fileArg) {
+      return this.report(ctx, "warning", "Usage: /jj-checkpoints export <file> [entry...]");
+    }
+
+    if (!(await this.ensureJjRepo())) {
+      return this.report(ctx, "warning", "Not a jj repo");
+    }
+
+    const listed = this.getListedCheckpoints();
+    let selected: Checkpoint[];
+    if (entryPrefixes.length > 0) {
+      selected = [];
+      for (const prefix of entryPrefixes) {
+        const checkpoint = this.findCheckpointByPrefix(prefix);
+        if (!checkpoint) {
+          return this.report(ctx, "warning", `No checkpoint matches "${prefix}"`);
+        }
+        selected.push(checkpoint);
+      }
+    } else if (ctx.hasUI) {
+      const visible = listed.slice(0, this.loadSettings().checkpointListLimit);
+      const allOption = `All listed checkpoints (${visible.length})`;
+      const labels = visible.map((cp) => this.checkpointLabel(cp));
+      const choice = await ctx.ui.select("Export which checkpoints?", [allOption, ...labels]);
+      if (!choice) return { ok: false, message: "Checkpoint export cancelled" };
+      if (choice === allOption) {
+        selected = visible;
+      } else {
+        const checkpoint = visible[labels.indexOf(choice)];
+        if (!checkpoint) return this.report(ctx, "warning", "Selected checkpoint not found");
+        selected = [checkpoint];
+      }
+    } else {
+      selected = listed.slice(0, this.loadSettings().checkpointListLimit);
+    }
+
+    const file = resolve(ctx.cwd, fileArg);
+    try {
+      const bundle = await this.exportCheckpoints(selected, file, ctx);
+      return this.report(
+        ctx,
+        "info",
+        `Exported ${bundle.checkpoints.length} checkpoint(s) to ${file} (bundle ${bundle.bundleId})`,
+        { file, bundleId: bundle.bundleId, checkpoints: selected },
+      );
+    } catch (error) {
+      return this.report(ctx, "error", `Failed to export checkpoints: ${String(error)}`);
+    }
+  }
+
+  private async commandCheckpointImport(tokens: string[], ctx: ExtensionContext): Promise<CommandResult<CheckpointTransferResult>> {
+    const fileArg = tokens[0];
+    if (!fileArg) {
+      return this.report(ctx, "warning", "Usage: /jj-checkpoints import <file>");
+    }
+
+    if (!(await this.ensureJjRepo())) {
+      return this.report(ctx, "warning", "Not a jj repo");
+    }
+
+    const file = resolve(ctx.cwd, fileArg);
+    let imported: Checkpoint[];
+    try {
+      imported = await this.importCheckpoints(file);
+    } catch (error) {
+      return this.report(ctx, "error", `Failed to import checkpoints: ${String(error)}`);
+    }
+
+    // Imported checkpoints have no session entry here, so they are registered without a /tree label.
+    for (const checkpoint of imported) {
+      this.checkpoints.set(checkpoint.entryId, checkpoint);
+      this.checkpointValidity.set(checkpoint.entryId, "revision-only");
+      this.pi.appendEntry(CHECKPOINT_ENTRY_TYPE, {
+        ...checkpoint,
+        sessionId: this.sessionId,
+      });
+    }
+    this.pruneCheckpoints(ctx);
+    this.setStatus(ctx);
+
+    const bundleId = imported[0]?.imported?.bundleId;
+    return this.report(
+      ctx,
+      "info",
+      `Imported ${imported.length} checkpoint(s) from ${basename(file)}` + (bundleId ? ` (bundle ${bundleId})` : ""),
+      { file, bundleId, checkpoints: imported },
+    );
+  }
+
+  private parseDurationMs(value: string): number | null {
+    const match = /^(\d+(?:\.\d+)?)\s*(s|m|h|d|w)?$/i.exec(value.trim());
+    if (!match) return null;
+    const units: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+    return Number(match[1]) * units[(match[2] ?? "m").toLowerCase()]!;
+  }
+
+  private async checkpointTouchedPaths(checkpoint: Checkpoint): Promise<string[]> {
+    const cached = this.checkpointPathsCache.get(checkpoint.entryId);
+    if (cached) return cached;
+
+    let paths: string[] = [];
+    try {
+      const output = await this.diffCheckpointTurn(checkpoint, "name-only");
+      paths = output.split("\n").map((line) => line.trim()).filter(Boolean);
+    } catch {
+      // no post-turn state or the revision is gone; nothing to match against
+    }
+    this.checkpointPathsCache.set(checkpoint.entryId, paths);
+    return paths;
+  }
+
+  private async findCheckpoints(
+    query: string,
+    range: { since?: number; until?: number },
+    ctx: ExtensionContext,
+  ): Promise<Array<{ checkpoint: Checkpoint; reason: string }>> {
+    const needle = query.toLowerCase();
+    const now = Date.now();
+    const candidates = this.getListedCheckpoints().filter((cp) => {
+      if (range.since !== undefined && cp.timestamp < now - range.since) return false;
+      if (range.until !== undefined && cp.timestamp > now - range.until) return false;
+      return true;
+    });
+    if (!needle) return candidates.map((checkpoint) => ({ checkpoint, reason: "time range" }));
+
+    const matches: Array<{ checkpoint: Checkpoint; reason: string }> = [];
+    const progressKey = `${STATUS_KEY}:find`;
+    try {
+      for (const [i, checkpoint] of candidates.entries()) {
+        const ids = [checkpoint.changeId, checkpoint.promptChangeId, checkpoint.revision, checkpoint.entryId];
+        if (ids.some((id) => id?.toLowerCase().startsWith(needle))) {
+          matches.push({ checkpoint, reason: "id" });
+          continue;
+        }
+
+        const prompt = this.checkpointPromptText(ctx, checkpoint);
+        if (prompt.toLowerCase().includes(needle)) {
+          matches.push({ checkpoint, reason: `prompt: ${promptSnippet(prompt)}` });
+          continue;
+        }
+
+        if (ctx.hasUI) ctx.ui.setStatus(progressKey, `pi-jj find: scanning turn paths ${i + 1}/${candidates.length}`);
+        const path = (await this.checkpointTouchedPaths(checkpoint)).find((p) => p.toLowerCase().includes(needle));
+        if (path) matches.push({ checkpoint, reason: `path: ${path}` });
+      }
+    } finally {
+      if (ctx.hasUI) ctx.ui.setStatus(progressKey, undefined);
+    }
+
+    return matches;
+  }
+
+  private async commandCheckpointFind(
+    tokens: string[],
+    plain: boolean,
+    ctx: ExtensionContext,
+  ): Promise<CommandResult<CheckpointListResult>> {
+    const terms: string[] = [];
+    const range: { since?: number; until?: number } = {};
+    const rangeLabels: string[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i]!;
+      if (token === "--since" || token === "--until") {
+        const value = tokens[++i] ?? "";
+        const ms = this.parseDurationMs(value);
+        if (ms === null) {
+          return this.report(ctx, "warning", `Invalid duration for ${token}: "${value}" (use e.g. 30m, 2h, 3d)`);
+        }
+        range[token === "--since" ? "since" : "until"] = ms;
+        rangeLabels.push(token === "--since" ? `since ${value}` : `until ${value} ago`);
+        continue;
+      }
+      terms.push(token);
+    }
+
+    const query = terms.join(" ");
+    if (!query && range.since === undefined && range.until === undefined) {
+      return this.report(ctx, "warning", "Usage: /jj-checkpoints find <query> [--since 2h] [--until 30m] [plain]");
+    }
+
+    if (!(await this.ensureJjRepo())) {
+      return this.report(ctx, "warning", "Not a jj repo");
+    }
+
+    const matches = await this.findCheckpoints(query, range, ctx);
+    const title = ["jj checkpoints", query ? `matching "${query}"` : "", ...rangeLabels].filter(Boolean).join(" ");
+    const data = { total: matches.length, checkpoints: matches.map((match) => match.checkpoint) };
+    if (matches.length === 0) {
+      return this.report(ctx, "info", `No ${title}`, data);
+    }
+
+    if (plain || !ctx.hasUI) {
+      const lines = matches
+        .slice(0, this.loadSettings().checkpointListLimit)
+        .map(({ checkpoint, reason }) => `${this.checkpointLabel(checkpoint)}\n    ${reason}`);
+      return this.report(ctx, "info", `${title} (${matches.length})\n${lines.join("\n")}`, data);
+    }
+
+    await this.showCheckpointUi(ctx, { checkpoints: data.checkpoints, title });
+    return { ok: true, message: `${title} (${matches.length})`, data };
+  }
+
+  private async commandCheckpointBisect(command: string, ctx: ExtensionContext): Promise<CommandResult<CheckpointBisectResult>> {
+    if (!command) {
+      return this.report(ctx, "warning", "Usage: /jj-checkpoints bisect <command>");
+    }
+
+    if (!(await this.ensureJjRepo())) {
+      return this.report(ctx, "warning", "Not a jj repo");
+    }
+
+    // State 0 is the oldest checkpoint's pre-turn state; state i is the state after the i-th turn, so the
+    // first failing state names the turn that broke the command.
+    const ordered = this.getOrderedCheckpoints()
+      .reverse()
+      .filter((cp) => cp.agentEndRevision ?? cp.postRevision);
+    if (ordered.length === 0) {
+      return this.report(ctx, "info", "No jj checkpoints with a post-turn state yet");
+    }
+    const states = [ordered[0]!.revision, ...ordered.map((cp) => (cp.agentEndRevision ?? cp.postRevision)!)];
+
+    const progressKey = `${STATUS_KEY}:bisect`;
+    const results = new Map<number, { passed: boolean; output: string }>();
+    let workspace: BisectWorkspace | null = null;
+
+    try {
+      workspace = await this.createBisectWorkspace(states[states.length - 1]!);
+      const active = workspace;
+
+      const test = async (index: number) => {
+        if (ctx.hasUI) {
+          ctx.ui.setStatus(progressKey, `pi-jj bisect: testing state ${index}/${ordered.length} (${results.size + 1} run)`);
+        }
+        const result = await this.runBisectStep(active, states[index]!, command);
+        results.set(index, result);
+        return result.passed;
+      };
+
+      const newest = states.length - 1;
+      if (await test(newest)) {
+        return this.report(
+          ctx,
+          "info",
+          `jj checkpoint bisect: \`${command}\` passes after the newest checkpoint's turn; nothing to bisect`,
+          { command, tested: results.size },
+        );
+      }
+
+      let lo = 0;
+      let hi = newest;
+      while (lo < hi) {
+        const mid = Math.floor((lo + hi) / 2);
+        if (await test(mid)) lo = mid + 1;
+        else hi = mid;
+      }
+
+      const firstFailing = hi > 0 ? ordered[hi - 1] : undefined;
+      const lastPassing = hi > 1 ? ordered[hi - 2] : undefined;
+      const promptLine = (checkpoint: Checkpoint) => {
+        const text = this.checkpointPromptText(ctx, checkpoint);
+        return `prompt: ${text ? promptSnippet(text, 200) : "(unavailable)"}`;
+      };
+
+      const lines = [
+        `jj checkpoint bisect: \`${command}\``,
+        `tested ${results.size} of ${states.length} states`,
+        "",
+      ];
+      if (!firstFailing) {
+        lines.push("it already fails before the oldest checkpoint's turn");
+      } else {
+        lines.push(`introduced by: ${this.checkpointLabel(firstFailing)}`, promptLine(firstFailing), "");
+        lines.push(
+          lastPassing
+            ? `last passing after: ${this.checkpointLabel(lastPassing)}`
+            : "last passing: before the oldest checkpoint's turn",
+        );
+        if (lastPassing) lines.push(promptLine(lastPassing));
+      }
+
+      const failureOutput = results.get(hi)?.output;
+      let tail: string[] = [];
+      if (failureOutput) {
+        const outputLines = failureOutput.split("\n");
+        tail = outputLines.slice(-40);
+        if (outputLines.length > tail.length) tail.unshift(`... (${outputLines.length - tail.length} earlier lines)`);
+        lines.push("", "failure output:", ...tail);
+      }
+
+      // A failing checkpoint is the expected outcome of a bisect, so the run itself still succeeded.
+      const message = lines.join("\n");
+      this.notifyResult(ctx, message, "warning");
+      return {
+        ok: true,
+        message,
+        data: {
+          command,
+          tested: results.size,
+          firstFailing,
+          lastPassing,
+          failureOutput: tail.length > 0 ? tail.join("\n") : undefined,
+        },
+      };
+    } catch (error) {
+      return this.report(ctx, "error", `Checkpoint bisect failed: ${String(error)}`);
+    } finally {
+      if (workspace) {
+        try {
+          await this.removeBisectWorkspace(workspace);
+        } catch (error) {
+          ctx.ui.notify(`Failed to clean up bisect workspace ${workspace.name}: ${String(error)}`, "warning");
+        }
+      }
+      if (ctx.hasUI) ctx.ui.setStatus(progressKey, undefined);
+    }
+  }
+
+  async commandJjCheckpoints(args: string, ctx: ExtensionContext): Promise<CommandResult<CheckpointsCommandData>> {
+    const bisect = /^bisect(?:\s+|$)([\s\S]*)$/i.exec((args ?? "").trim());
+    if (bisect) {
+      return this.commandCheckpointBisect(bisect[1]!.trim(), ctx);
     }
 
-    if (choice === "Keep current files") {
-      return;
+    const parsed = this.parseArgsWithPlainMode(args);
+    const tokens = parsed.normalizedArgs.split(/\s+/).filter(Boolean);
+    const subcommand = (tokens[0] ?? "").toLowerCase();
+    if (subcommand === "all") {
+      return this.commandCheckpointsAll(parsed.plain, ctx);
     }
 
-    if (choice === "Undo last rewind") {
-      const undoOpId = this.lastRestoreOperationId;
-      if (!undoOpId) return { cancel: true };
+    if (subcommand === "import") {
+      return this.commandCheckpointImport(tokens.slice(1), ctx);
+    }
 
-      const success = await this.restoreWithUndo({ mode: "operation", operationId: undoOpId }, ctx);
-      if (success) {
-        ctx.ui.notify("Rewind undone", "info");
-      }
-      return { cancel: true };
+    const changedOnly = tokens.includes("--changed");
+    const ordered = this.getListedCheckpoints({ changedOnly });
+    if (ordered.length === 0) {
+      return this.report(ctx, "info", changedOnly ? "No jj checkpoints with file changes" : "No jj checkpoints yet", {
+        total: 0,
+        checkpoints: [],
+      });
     }
 
-    if (!restoreTarget) {
-      ctx.ui.notify("No jj checkpoint found for that point", "warning");
-      return { cancel: true };
+    if (subcommand === "diff" || subcommand === "turn-diff") {
+      return this.commandCheckpointDiff(subcommand, tokens.slice(1), ctx);
     }
 
-    const success = await this.restoreWithUndo(restoreTarget, ctx);
-    if (!success) {
-      return { cancel: true };
+    if (subcommand === "verify") {
+      return this.commandCheckpointVerify(tokens.slice(1), ctx);
     }
 
-    ctx.ui.notify("Restored to checkpoint", "info");
-  }
+    if (subcommand === "export") {
+      return this.commandCheckpointExport(tokens.slice(1), ctx);
+    }
 
-  async commandJjInit(_args: string, ctx: ExtensionContext) {
-    if (await this.ensureJjRepo()) {
-      ctx.ui.notify("This repo is already initialized for jj", "info");
+    if (subcommand === "compact") {
+      const result = this.compactCheckpoints(ctx);
+      await this.compactRepoCheckpoints().catch((error) => {
+        this.report(ctx, "warning", `Failed to compact the repo checkpoint index: ${String(error)}`);
+      });
       this.setStatus(ctx);
-      return;
+      return this.report(
+        ctx,
+        "info",
+        `Compacted jj checkpoint index: kept ${result.kept}, dropped ${result.removed} outside retention/maxCheckpoints`,
+        result,
+      );
     }
 
-    const isGit = await this.detectGitRepo();
-    this.isGitRepo = isGit;
-    if (!isGit) {
-      ctx.ui.notify("Current directory is not a git repo", "warning");
-      return;
+    if (subcommand === "find") {
+      return this.commandCheckpointFind(tokens.slice(1), parsed.plain, ctx);
     }
 
-    const ok = await this.initJjInGitRepo(ctx);
-    if (!ok) return;
+    const settings = this.loadSettings();
+    const visible = ordered.slice(0, settings.checkpointListLimit);
+    const data = { total: ordered.length, checkpoints: visible };
 
-    this.needsInitPrompt = false;
-    this.rebuildCheckpointsFromSession(ctx);
-    try {
-      const op = await this.currentOperationInfo();
-      this.resumeCheckpointOperationId = op.id;
-    } catch {
-      this.resumeCheckpointOperationId = null;
+    if (parsed.plain || !ctx.hasUI) {
+      const lines = visible.flatMap((checkpoint) => this.checkpointListLines(checkpoint));
+      return this.report(ctx, "info", `jj checkpoints (${ordered.length})\n${lines.join("\n")}`, data);
     }
 
-    this.setStatus(ctx);
+    await this.showCheckpointUi(ctx, { changedOnly });
+    return { ok: true, message: `jj checkpoints (${ordered.length})`, data };
   }
 
-  async commandJjDeinit(args: string, ctx: ExtensionContext) {
-    const isGit = await this.detectGitRepo();
-    this.isGitRepo = isGit;
-    if (!isGit) {
-      ctx.ui.notify("Current directory is not a git repo", "warning");
-      return;
+  async agentRestoreCheckpoint(
+    request: { entry?: string; turnsAgo?: number; reason?: string },
+    ctx: ExtensionContext,
+  ): Promise<CommandResult<AgentRestoreResult>> {
+    if (!(await this.ensureJjRepo())) {
+      return this.report(ctx, "warning", "Not a jj repo");
     }
 
-    const hasJj = await this.ensureJjRepo();
-    if (!hasJj) {
-      ctx.ui.notify("This repo is not initialized for jj", "info");
-      this.setStatus(ctx);
-      return;
+    const settings = this.loadSettings();
+    if (!ctx.hasUI && !settings.allowHeadlessAgentRestore) {
+      return this.report(
+        ctx,
+        "warning",
+        "Checkpoint restore refused: there is no UI to confirm it (set piJj.allowHeadlessAgentRestore to allow headless restores)",
+      );
     }
 
-    let removeRefs = (args ?? "").trim().toLowerCase() === "full";
-
-    if (!removeRefs && ctx.hasUI) {
-      const choice = await ctx.ui.select("Deinitialize jj for this repo?", [
-        "Remove .jj only (keep refs/jj/*)",
-        "Full cleanup (.jj + refs/jj/*)",
-        "Cancel",
-      ]);
-
-      if (!choice || choice === "Cancel") {
-        ctx.ui.notify("jj deinit cancelled", "info");
-        return;
+    // Only checkpoints recorded at an agent turn count: imported ones come from another clone's history, and
+    // turn reverts are not turns either, so "1 turn ago" keeps meaning the latest turn after a revert.
+    const ordered = this.getOrderedCheckpoints().filter((cp) => !cp.imported && cp.turnIndex !== undefined);
+    let checkpoint: Checkpoint | null;
+    let point: RestorePoint;
+    if (request.entry) {
+      checkpoint = this.findCheckpointByPrefix(request.entry);
+      if (!checkpoint) return this.report(ctx, "warning", `No checkpoint matches "${request.entry}"`);
+      point = this.restorePointFor(checkpoint);
+    } else if (request.turnsAgo !== undefined) {
+      if (!Number.isInteger(request.turnsAgo) || request.turnsAgo < 1) {
+        return this.report(ctx, "warning", "turnsAgo must be a positive integer");
       }
-
-      removeRefs = choice.startsWith("Full cleanup");
+      // Checkpoints hold the state before their turn, so "1 turn ago" is the newest one.
+      checkpoint = ordered[request.turnsAgo - 1] ?? null;
+      if (!checkpoint) {
+        return this.report(
+          ctx,
+          "warning",
+          `Only ${ordered.length} turn checkpoint(s) exist in this session; cannot go back ${request.turnsAgo} turn(s)`,
+        );
+      }
+      // "N turns ago" means before that turn, even for per-turn checkpoints.
+      point = { checkpoint, revision: checkpoint.revision, phase: "pre" };
+    } else {
+      return this.report(ctx, "warning", "Checkpoint restore needs an entry ID prefix or turnsAgo");
     }
 
-    if (ctx.hasUI) {
-      const confirmed = await ctx.ui.confirm(
-        "Confirm jj deinit",
-        removeRefs
-          ? "This will remove .jj and delete refs/jj/* in this git repo. Continue?"
-          : "This will remove .jj in this git repo. Continue?",
-      );
+    let target = this.checkpointRestoreTarget(point);
 
+    if (ctx.hasUI) {
+      const prompt = this.checkpointPromptText(ctx, checkpoint);
+      const body = [
+        `restore ${target.mode === "operation" ? "repo state (jj op restore)" : "files"} to ${point.phase === "post" ? "after" : "before"}: ${this.checkpointLabel(checkpoint)}`,
+        ...(prompt ? [`prompt: ${promptSnippet(prompt, 200)}`] : []),
+        ...(request.reason ? [`agent's reason: ${request.reason}`] : []),
+        ...(await this.rewindPreview(target)),
+        "undo with /jj-undo",
+      ].join("\n");
+      const confirmed = await ctx.ui.confirm("The agent wants to restore a checkpoint", body);
       if (!confirmed) {
-        ctx.ui.notify("jj deinit cancelled", "info");
-        return;
+        ctx.ui.notify("Checkpoint restore declined", "info");
+        return { ok: false, message: "The user declined the checkpoint restore" };
       }
+
+      const chosen = await this.withUserEditsChoice(target, point, ctx);
+      if (!chosen) {
+        ctx.ui.notify("Checkpoint restore cancelled", "info");
+        return { ok: false, message: "The user cancelled the checkpoint restore" };
+      }
+      target = chosen;
+    }
+
+    const success = await this.restoreWithUndo(target, ctx);
+    if (!success) {
+      return { ok: false, message: `Failed to restore checkpoint ${checkpoint.entryId.slice(0, 8)}` };
     }
 
-    await this.deinitJjRepo(ctx, removeRefs);
+    const label = this.restoreTargetLabel(target);
+    const keptUserEditPaths = target.mode === "paths" ? 0 : new Set((target.keepPaths ?? []).flatMap((keep) => keep.paths)).size;
+    return this.report(
+      ctx,
+      "info",
+      `Restored from checkpoint ${checkpoint.entryId.slice(0, 8)} (${label})` +
+        (keptUserEditPaths > 0 ? `, kept ${keptUserEditPaths} user-edited file(s)` : "") +
+        "; undo with /jj-undo",
+      { checkpoint, mode: target.mode === "operation" ? "operation" : "file", keptUserEditPaths },
+    );
   }
 
-  async commandJjCheckpoints(args: string, ctx: ExtensionContext) {
-    const mode = (args ?? "").trim().toLowerCase();
+  async commandJjCheckpointPin(args: string, ctx: ExtensionContext) {
     const ordered = this.getOrderedCheckpoints();
     if (ordered.length === 0) {
       ctx.ui.notify("No jj checkpoints yet", "info");
       return;
     }
 
-    const settings = this.loadSettings();
-    const visible = ordered.slice(0, settings.checkpointListLimit);
+    let checkpoint = ordered[0]!;
+    if (ctx.hasUI) {
+      const visible = this.getListedCheckpoints().slice(0, this.loadSettings().checkpointListLimit);
+      const labels = visible.map((cp) => this.checkpointLabel(cp));
+      const selected = await ctx.ui.select("Pin which checkpoint?", labels);
+      if (!selected) return;
+      const picked = visible[labels.indexOf(selected)];
+      if (!picked) return;
+      checkpoint = picked;
+    }
 
-    if (mode === "plain" || !ctx.hasUI) {
-      const lines = visible.map((checkpoint) => checkpointLine(checkpoint));
-      ctx.ui.notify(`jj checkpoints (${ordered.length})\n${lines.join("\n")}`, "info");
-      return;
+    let name = (args ?? "").trim();
+    if (!name && ctx.hasUI) {
+      const input = await ctx.ui.input("Checkpoint name (optional)", "e.g. tests green before refactor");
+      if (input === undefined) return;
+      name = input.trim();
     }
 
-    await this.showCheckpointUi(ctx);
+    this.setCheckpointPin(ctx, checkpoint, true, name);
+    ctx.ui.notify(`Pinned checkpoint ${checkpoint.entryId.slice(0, 8)}${name ? ` as "${name}"` : ""}`, "info");
   }
 
-  async commandJjStackStatus(args: string, ctx: ExtensionContext) {
+  private async commandRewindHistory(direction: "undo" | "redo", args: string, ctx: ExtensionContext) {
     if (!(await this.ensureJjRepo())) {
       ctx.ui.notify("Not a jj repo", "warning");
       return;
     }
 
+    const parsed = this.parseArgsWithPlainMode(args);
+    const token = parsed.normalizedArgs.trim().toLowerCase();
+    const stack = direction === "undo" ? this.undoStack : this.redoStack;
+
+    if (token === "list" || parsed.plain) {
+      ctx.ui.notify(`jj rewind history\n${this.rewindHistorySummary()}`, "info");
+      return;
+    }
+
+    let levels = 1;
+    if (token) {
+      const candidate = Number(token);
+      if (!Number.isInteger(candidate) || candidate < 1) {
+        ctx.ui.notify(`Usage: /jj-${direction} [n|list]`, "warning");
+        return;
+      }
+      levels = candidate;
+    } else if (ctx.hasUI) {
+      if (stack.length === 0) {
+        ctx.ui.notify(`Nothing to ${direction}`, "info");
+        return;
+      }
+
+      // Picking the Nth entry rolls back (or forward) through every rewind above it.
+      const labels = [...stack].reverse().map((record, i) => `${i + 1}. ${rewindLine(record)}`);
+      const selected = await ctx.ui.select(`jj ${direction} (${stack.length} rewinds)`, labels);
+      if (!selected) return;
+      const index = labels.indexOf(selected);
+      if (index < 0) return;
+      levels = index + 1;
+    }
+
+    const applied = Math.min(levels, stack.length);
+    const success = direction === "undo" ? await this.undoRewinds(levels, ctx) : await this.redoRewinds(levels, ctx);
+    if (success) {
+      ctx.ui.notify(`${direction === "undo" ? "Undid" : "Redid"} ${applied} rewind(s)`, "info");
+    }
+  }
+
+  async commandJjUndo(args: string, ctx: ExtensionContext) {
+    await this.commandRewindHistory("undo", args, ctx);
+  }
+
+  async commandJjRedo(args: string, ctx: ExtensionContext) {
+    await this.commandRewindHistory("redo", args, ctx);
+  }
+
+  async commandJjStackStatus(args: string, ctx: ExtensionContext): Promise<CommandResult<StackStatusResult>> {
+    if (!(await this.ensureJjRepo())) {
+      return this.report(ctx, "warning", "Not a jj repo");
+    }
+
     const mode = (args ?? "").trim().toLowerCase();
     const snapshot = await this.collectStackStatusSnapshot(ctx);
+    const data: StackStatusResult = {
+      revision: snapshot.revision,
+      change: snapshot.change,
+      operation: snapshot.operation,
+      checkpointCount: snapshot.checkpoints.length,
+      latestCheckpoint: snapshot.latestCheckpoint,
+      prSnapshot: snapshot.prSnapshot,
+      stack: snapshot.stackViews,
+    };
 
     if (!ctx.hasUI || mode === "plain") {
-      ctx.ui.notify(snapshot.summary, "info");
-      return;
+      return this.report(ctx, "info", snapshot.summary, data);
     }
 
     await this.showStackStatusUi(snapshot, args, ctx);
+    return { ok: true, message: snapshot.summary, data };
   }
 
-  async commandJjPrPlan(args: string, ctx: ExtensionContext) {
+  async commandJjPrPlan(args: string, ctx: ExtensionContext): Promise<CommandResult<PrPlanResult>> {
     if (!(await this.ensureJjRepo())) {
-      ctx.ui.notify("Not a jj repo", "warning");
-      return;
+      return this.report(ctx, "warning", "Not a jj repo");
     }
 
     const parsed = this.parseArgsWithPlainMode(args);
     const snapshot = await this.collectPrPlanSnapshot(parsed.normalizedArgs);
+    const data: PrPlanResult = { remote: snapshot.remote, defaultBase: snapshot.defaultBase, entries: snapshot.entries };
 
     if (snapshot.entries.length === 0) {
-      ctx.ui.notify("No mutable stack entries found", "info");
-      return;
+      return this.report(ctx, "info", "No mutable stack entries found", data);
     }
 
     if (!ctx.hasUI || parsed.plain) {
-      ctx.ui.notify(snapshot.summary, "info");
-      return;
+      return this.report(ctx, "info", snapshot.summary, data);
     }
 
     await this.showPrPlanUi(snapshot, ctx);
+    return { ok: true, message: snapshot.summary, data };
   }
 
-  async commandJjPrPublish(args: string, ctx: ExtensionContext) {
+  async commandJjPrPublish(args: string, ctx: ExtensionContext): Promise<CommandResult<PrPublishResult>> {
     if (!(await this.ensureJjRepo())) {
-      ctx.ui.notify("Not a jj repo", "warning");
-      return;
+      return this.report(ctx, "warning", "Not a jj repo");
     }
 
     const stack = await this.getStackNodes();
     if (stack.length === 0) {
-      ctx.ui.notify("No mutable stack entries found", "info");
-      return;
+      return this.report(ctx, "info", "No mutable stack entries found");
     }
 
     const parsedOptions = this.parsePrPublishOptions(args);
     const maybeSelectedOptions = await this.maybePromptPublishMode(parsedOptions, args, ctx);
-    if (!maybeSelectedOptions) return;
+    if (!maybeSelectedOptions) return { ok: false, message: "Stacked PR publish cancelled" };
 
     const options = maybeSelectedOptions;
     const remote = options.remote || (await this.defaultGitRemote()) || "origin";
@@ -1761,8 +4503,7 @@ export class PiJjRuntime {
     try {
       await this.execGh(["auth", "status"]);
     } catch (error) {
-      ctx.ui.notify(`GitHub auth required for PR publish: ${String(error)}`, "error");
-      return;
+      return this.report(ctx, "error", `GitHub auth required for PR publish: ${String(error)}`);
     }
 
     const header = `Publish stacked PRs to ${remote}?\nentries=${stack.length}\ndefault base=${defaultBase}\ndraft=${options.draft}\ndry-run=${options.dryRun}`;
@@ -1770,7 +4511,7 @@ export class PiJjRuntime {
       const confirmed = await ctx.ui.confirm("Confirm stacked PR publish", header);
       if (!confirmed) {
         ctx.ui.notify("Stacked PR publish cancelled", "info");
-        return;
+        return { ok: false, message: "Stacked PR publish cancelled" };
       }
     }
 
@@ -1925,9 +4666,14 @@ export class PiJjRuntime {
         if (record.state) lines.push(`   state: ${record.state}`);
       }
 
-      ctx.ui.notify(lines.join("\n"), "info");
+      return this.report(ctx, "info", lines.join("\n"), { remote, dryRun: options.dryRun, draft: options.draft, records });
     } catch (error) {
-      ctx.ui.notify(`Stacked PR publish failed: ${String(error)}`, "error");
+      return this.report(ctx, "error", `Stacked PR publish failed: ${String(error)}`, {
+        remote,
+        dryRun: options.dryRun,
+        draft: options.draft,
+        records,
+      });
     } finally {
       if (ctx.hasUI) {
         ctx.ui.setStatus(progressKey, undefined);
@@ -1940,7 +4686,7 @@ export class PiJjRuntime {
     stack: StackNode[],
     ctx: ExtensionContext,
     options: { retargetBases: boolean; persist: boolean; notify: boolean },
-  ): Promise<{ records: PrRecord[]; retargeted: string[]; defaultBase: string }> {
+  ): Promise<{ records: PrRecord[]; retargeted: string[]; defaultBase: string; summary: string }> {
     const defaultBase = await this.defaultBaseBranch();
     const records: PrRecord[] = [];
     const retargeted: string[] = [];
@@ -1988,55 +4734,45 @@ export class PiJjRuntime {
       });
     }
 
-    if (options.notify) {
-      const counts = records.reduce(
-        (acc, record) => {
-          const key = (record.state || "MISSING").toUpperCase();
-          acc[key] = (acc[key] ?? 0) + 1;
-          return acc;
-        },
-        {} as Record<string, number>,
-      );
-
-      const lines: string[] = [];
-      lines.push(`remote: ${remote}`);
-      lines.push(`mode: sync`);
-      lines.push(`entries: ${records.length}`);
-      lines.push(`open=${counts.OPEN ?? 0} merged=${counts.MERGED ?? 0} closed=${counts.CLOSED ?? 0} missing=${counts.MISSING ?? 0}`);
-
-      if (retargeted.length > 0) {
-        lines.push(`retargeted: ${retargeted.length}`);
-        for (const msg of retargeted) {
-          lines.push(`   ${msg}`);
-        }
+    const lines: string[] = [];
+    lines.push(`remote: ${remote}`);
+    lines.push(`mode: sync`);
+    lines.push(`entries: ${records.length}`);
+    lines.push(this.prStateSummary(records));
+
+    if (retargeted.length > 0) {
+      lines.push(`retargeted: ${retargeted.length}`);
+      for (const msg of retargeted) {
+        lines.push(`   ${msg}`);
       }
+    }
 
-      lines.push("");
+    lines.push("");
 
-      for (const [i, record] of records.entries()) {
-        lines.push(`${i + 1}. ${record.changeIdShort} -> ${record.branch}`);
-        lines.push(`   state: ${record.state}`);
-        if (record.base && record.base !== "-") lines.push(`   base: ${record.base}`);
-        if (record.number) lines.push(`   PR #${record.number}`);
-        if (record.url) lines.push(`   ${record.url}`);
-      }
+    for (const [i, record] of records.entries()) {
+      lines.push(`${i + 1}. ${record.changeIdShort} -> ${record.branch}`);
+      lines.push(`   state: ${record.state}`);
+      if (record.base && record.base !== "-") lines.push(`   base: ${record.base}`);
+      if (record.number) lines.push(`   PR #${record.number}`);
+      if (record.url) lines.push(`   ${record.url}`);
+    }
 
-      ctx.ui.notify(lines.join("\n"), "info");
+    const summary = lines.join("\n");
+    if (options.notify) {
+      this.notifyResult(ctx, summary, "info");
     }
 
-    return { records, retargeted, defaultBase };
+    return { records, retargeted, defaultBase, summary };
   }
 
-  async commandJjPrSync(args: string, ctx: ExtensionContext) {
+  async commandJjPrSync(args: string, ctx: ExtensionContext): Promise<CommandResult<PrSyncResult>> {
     if (!(await this.ensureJjRepo())) {
-      ctx.ui.notify("Not a jj repo", "warning");
-      return;
+      return this.report(ctx, "warning", "Not a jj repo");
     }
 
     const stack = await this.getStackNodes();
     if (stack.length === 0) {
-      ctx.ui.notify("No mutable stack entries found", "info");
-      return;
+      return this.report(ctx, "info", "No mutable stack entries found");
     }
 
     const options = this.parsePrPublishOptions(args);
@@ -2045,33 +4781,44 @@ export class PiJjRuntime {
     try {
       await this.execGh(["auth", "status"]);
     } catch (error) {
-      ctx.ui.notify(`GitHub auth required for PR sync: ${String(error)}`, "error");
-      return;
+      return this.report(ctx, "error", `GitHub auth required for PR sync: ${String(error)}`);
     }
 
-    await this.refreshPrSnapshot(remote, stack, ctx, {
+    const refreshed = await this.refreshPrSnapshot(remote, stack, ctx, {
       retargetBases: true,
       persist: true,
       notify: true,
     });
+    return {
+      ok: true,
+      message: refreshed.summary,
+      data: { remote, defaultBase: refreshed.defaultBase, records: refreshed.records, retargeted: refreshed.retargeted },
+    };
   }
 
-  async commandJjStackClose(args: string, ctx: ExtensionContext) {
+  async commandJjStackClose(args: string, ctx: ExtensionContext): Promise<CommandResult<StackCloseResult>> {
     if (!(await this.ensureJjRepo())) {
-      ctx.ui.notify("Not a jj repo", "warning");
-      return;
+      return this.report(ctx, "warning", "Not a jj repo");
     }
 
     const stack = await this.getStackNodes();
     if (stack.length === 0) {
-      ctx.ui.notify("No mutable stack entries found", "info");
-      return;
+      return this.report(ctx, "info", "No mutable stack entries found");
     }
 
     const options = this.parseStackCloseOptions(args);
     const remote = options.remote || (await this.defaultGitRemote()) || "origin";
     const branches = [...new Set(stack.map((node) => this.branchForChange(node)))];
 
+    const closeResult: StackCloseResult = {
+      remote,
+      dryRun: options.dryRun,
+      branches,
+      openPrs: [],
+      deletedBookmarks: [],
+      errors: [],
+    };
+
     let openRecords: PrRecord[] = [];
     try {
       await this.execGh(["auth", "status"]);
@@ -2083,8 +4830,11 @@ export class PiJjRuntime {
       openRecords = refreshed.records.filter((record) => (record.state ?? "").toUpperCase() === "OPEN");
     } catch (error) {
       if (!options.force) {
-        ctx.ui.notify(`Could not refresh PR state before stack close: ${String(error)}. Re-run with --force to continue.`, "warning");
-        return;
+        return this.report(
+          ctx,
+          "warning",
+          `Could not refresh PR state before stack close: ${String(error)}. Re-run with --force to continue.`,
+        );
       }
       ctx.ui.notify(`Proceeding without PR refresh (--force): ${String(error)}`, "warning");
     }
@@ -2094,13 +4844,15 @@ export class PiJjRuntime {
         .slice(0, 10)
         .map((record) => `- ${record.changeIdShort} pr:#${record.number ?? "?"} ${record.url ?? ""}`.trim());
       const suffix = openRecords.length > lines.length ? `\n...and ${openRecords.length - lines.length} more` : "";
-      ctx.ui.notify(
-        `Cannot close stack: ${openRecords.length} open PR(s) remain. Merge/close them first, or run /jj-stack-close --force.\n${lines.join("\n")}${suffix}`,
+      return this.report(
+        ctx,
         "warning",
+        `Cannot close stack: ${openRecords.length} open PR(s) remain. Merge/close them first, or run /jj-stack-close --force.\n${lines.join("\n")}${suffix}`,
+        { ...closeResult, openPrs: openRecords },
       );
-      return;
     }
 
+    closeResult.openPrs = openRecords;
     const summary = [
       `remote: ${remote}`,
       `stack entries: ${stack.length}`,
@@ -2119,20 +4871,19 @@ export class PiJjRuntime {
         "bookmarks:",
         ...branches.map((branch) => `- ${branch}`),
       ];
-      ctx.ui.notify(lines.join("\n"), "info");
-      return;
+      return this.report(ctx, "info", lines.join("\n"), closeResult);
     }
 
     if (ctx.hasUI) {
       const confirmed = await ctx.ui.confirm("Close current stack", summary);
       if (!confirmed) {
         ctx.ui.notify("Stack close cancelled", "info");
-        return;
+        return { ok: false, message: "Stack close cancelled", data: closeResult };
       }
     }
 
-    const errors: string[] = [];
-    const deleted: string[] = [];
+    const errors = closeResult.errors;
+    const deleted = closeResult.deletedBookmarks;
 
     if (!options.keepBookmarks) {
       for (const branch of branches) {
@@ -2192,6 +4943,7 @@ export class PiJjRuntime {
       }
     }
 
+    if (newChangeCreated) closeResult.newChangeBase = newChangeBase;
     const resultLines = [
       "jj stack close complete",
       `remote: ${remote}`,
@@ -2202,11 +4954,186 @@ export class PiJjRuntime {
     if (errors.length > 0) {
       resultLines.push("errors:");
       resultLines.push(...errors.map((error) => `- ${error}`));
-      ctx.ui.notify(resultLines.join("\n"), "warning");
-      return;
+      return this.report(ctx, "warning", resultLines.join("\n"), closeResult);
+    }
+
+    return this.report(ctx, "info", resultLines.join("\n"), closeResult);
+  }
+
+  // Edits target the change ID, which still names the right commit if jj snapshots the working copy again first.
+  private async resolveStackRevision(
+    revision: string,
+    options: { allowImmutable?: boolean } = {},
+  ): Promise<{ changeId: string; changeIdShort: string; description: string }> {
+    if (revision.startsWith("-")) throw new Error(`Invalid revision: ${revision}`);
+
+    const result = await this.execJj([
+      "--ignore-working-copy",
+      "log",
+      "-r",
+      `(${revision}) & (ancestors(@) | descendants(@))`,
+      "--no-graph",
+      "-T",
+      "change_id ++ \"\\t\" ++ change_id.short() ++ \"\\t\" ++ if(immutable, \"1\", \"0\") ++ \"\\t\" ++ description.first_line() ++ \"\\n\"",
+    ]);
+    const rows = result.stdout
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => line.split("\t"));
+
+    if (rows.length === 0) throw new Error(`${revision} is not in the current stack`);
+    if (rows.length > 1) throw new Error(`${revision} resolves to ${rows.length} changes; pass a single change`);
+
+    const [changeId, changeIdShort, immutableFlag, ...descParts] = rows[0]!;
+    if (!changeId || !changeIdShort) throw new Error(`Could not resolve ${revision}`);
+    if (immutableFlag === "1" && !options.allowImmutable) throw new Error(`${changeIdShort} is immutable`);
+    return { changeId, changeIdShort, description: descParts.join("\t") || "(no description)" };
+  }
+
+  private async buildJjEditCommand(
+    input: JjEditInput,
+  ): Promise<{ args: string[]; summary: string; destructive: boolean }> {
+    const message = input.message?.trim() ?? "";
+    const paths = (input.paths ?? []).map((path) => path.trim()).filter(Boolean);
+
+    if (input.action === "new") {
+      const parent = await this.resolveStackRevision(input.revision || "@", { allowImmutable: true });
+      return {
+        args: ["new", parent.changeId, ...(message ? ["-m", message] : [])],
+        summary: `new change on ${parent.changeIdShort}`,
+        destructive: false,
+      };
+    }
+
+    const target = await this.resolveStackRevision(input.revision || "@");
+
+    if (input.action === "describe") {
+      if (!message) throw new Error("describe requires a message");
+      return {
+        args: ["describe", target.changeId, "-m", message],
+        summary: `describe ${target.changeIdShort}: ${promptSnippet(message, 60)}`,
+        destructive: false,
+      };
+    }
+
+    if (input.action === "split") {
+      if (paths.length === 0) throw new Error("split requires paths for the first change");
+      // Without -m jj opens an editor for the first change, so default to the current description.
+      let description = message;
+      if (!description) {
+        const current = await this.execJj(["--ignore-working-copy", "log", "-r", target.changeId, "--no-graph", "-T", "description"]);
+        description = current.stdout.trimEnd();
+      }
+      return {
+        args: ["split", "-r", target.changeId, "-m", description, ...this.filesetArgs(paths)],
+        summary: `split ${target.changeIdShort} (${paths.length} path(s) into the first change)`,
+        destructive: false,
+      };
+    }
+
+    if (input.action === "squash") {
+      const messageArgs = message ? ["-m", message] : ["--use-destination-message"];
+      const pathNote = paths.length ? ` (${paths.length} path(s))` : "";
+      if (input.into) {
+        const into = await this.resolveStackRevision(input.into);
+        return {
+          args: [
+            "squash",
+            "--from",
+            target.changeId,
+            "--into",
+            into.changeId,
+            ...messageArgs,
+            ...this.filesetArgs(paths),
+          ],
+          summary: `squash ${target.changeIdShort} into ${into.changeIdShort}${pathNote}`,
+          destructive: true,
+        };
+      }
+      return {
+        args: ["squash", "-r", target.changeId, ...messageArgs, ...this.filesetArgs(paths)],
+        summary: `squash ${target.changeIdShort} into its parent${pathNote}`,
+        destructive: true,
+      };
+    }
+
+    if (input.action === "abandon") {
+      return {
+        args: ["abandon", target.changeId],
+        summary: `abandon ${target.changeIdShort} "${promptSnippet(target.description, 60)}"`,
+        destructive: true,
+      };
+    }
+
+    if (input.action === "rebase") {
+      if (!input.destination) throw new Error("rebase requires a destination");
+      const destination = await this.resolveStackRevision(input.destination, { allowImmutable: true });
+      const withDescendants = input.withDescendants !== false;
+      return {
+        args: ["rebase", withDescendants ? "-s" : "-r", target.changeId, "-d", destination.changeId],
+        summary: `rebase ${target.changeIdShort}${withDescendants ? " with descendants" : ""} onto ${destination.changeIdShort}`,
+        destructive: true,
+      };
+    }
+
+    throw new Error(`Unsupported edit action: ${String((input as { action?: unknown }).action)}`);
+  }
+
+  async jjEdit(input: JjEditInput, ctx: ExtensionContext): Promise<CommandResult<JjEditResult>> {
+    if (!(await this.ensureJjRepo())) {
+      return this.report(ctx, "warning", "Not a jj repo");
+    }
+
+    // Snapshot the working copy before resolving revisions, so `@` is the commit that holds pending edits.
+    let beforeOp: { id: string; short: string };
+    try {
+      beforeOp = await this.currentOperationInfo();
+    } catch (error) {
+      return this.report(ctx, "error", `jj_edit ${input.action} failed: ${String(error)}`);
+    }
+
+    let command: { args: string[]; summary: string; destructive: boolean };
+    try {
+      command = await this.buildJjEditCommand(input);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return this.report(ctx, "error", `jj_edit ${input.action} refused: ${reason}`);
+    }
+
+    if (command.destructive && ctx.hasUI) {
+      const confirmed = await ctx.ui.confirm("Allow jj history edit?", `${command.summary}\n\nUndo with /jj-undo.`);
+      if (!confirmed) {
+        ctx.ui.notify(`jj_edit cancelled: ${command.summary}`, "info");
+        return { ok: false, message: `jj_edit cancelled by user: ${command.summary}` };
+      }
+    }
+
+    let afterOp: { id: string; short: string };
+    try {
+      await this.execJj(command.args);
+      afterOp = await this.currentOperationInfo();
+    } catch (error) {
+      return this.report(ctx, "error", `jj_edit ${command.summary} failed: ${String(error)}`);
     }
 
-    ctx.ui.notify(resultLines.join("\n"), "info");
+    // Recorded like a rewind, so /jj-undo restores the operation from before the edit.
+    this.recordRewind(`edit: ${command.summary}`, beforeOp, afterOp);
+
+    const stack = await this.getStackNodes().catch(() => [] as StackNode[]);
+    const lines = [
+      `jj_edit: ${command.summary}`,
+      `op:${beforeOp.short} → op:${afterOp.short} (undo with /jj-undo)`,
+      "",
+      `stack (${stack.length}):`,
+      ...stack.map((node, i) => `${i + 1}. ${node.changeIdShort} rev:${node.revisionShort} ${node.description}`),
+    ];
+    return this.report(ctx, "info", lines.join("\n"), {
+      action: input.action,
+      summary: command.summary,
+      beforeOperationId: beforeOp.id,
+      afterOperationId: afterOp.id,
+      stack,
+    });
   }
 
   private computeExpectedBase(stack: StackNode[], index: number, records: PrRecord[], defaultBase: string): string | null {
@@ -2226,7 +5153,7 @@ export class PiJjRuntime {
     return defaultBase;
   }
 
-  async commandJjSettings(args: string, ctx: ExtensionContext) {
+  async commandJjSettings(args: string, ctx: ExtensionContext): Promise<CommandResult<SettingsResult>> {
     const mode = (args ?? "").trim().toLowerCase();
     if (mode === "reload") {
       this.settingsStore.clearCache();
@@ -2237,15 +5164,18 @@ export class PiJjRuntime {
       }
 
       this.setStatus(ctx);
-      ctx.ui.notify(
-        `Reloaded piJj settings: silent=${reloaded.silentCheckpoints}, max=${reloaded.maxCheckpoints}, list=${reloaded.checkpointListLimit}, promptInit=${reloaded.promptForInit}, promptPublishMode=${reloaded.promptForPublishMode}, autoSyncOnPublish=${reloaded.autoSyncOnPublish}, restore=${reloaded.restoreMode}`,
+      return this.report(
+        ctx,
         "info",
+        `Reloaded piJj settings: silent=${reloaded.silentCheckpoints}, max=${reloaded.maxCheckpoints}, list=${reloaded.checkpointListLimit}, promptInit=${reloaded.promptForInit}, promptPublishMode=${reloaded.promptForPublishMode}, autoSyncOnPublish=${reloaded.autoSyncOnPublish}, restore=${reloaded.restoreMode}, checkpointMode=${reloaded.checkpointMode}, isolatedTurns=${reloaded.isolatedTurns}, anchorRefs=${reloaded.anchorCheckpointRefs}, retention=${reloaded.retentionKeepAllHours}h/${reloaded.retentionHourlyDays}d, toolSnapshots=${reloaded.toolSnapshots}`,
+        { settings: reloaded, file: this.settingsStore.settingsFile },
       );
-      return;
     }
 
     const settings = this.loadSettings();
-    ctx.ui.notify(
+    return this.report(
+      ctx,
+      "info",
       `piJj settings\n` +
         `silentCheckpoints: ${settings.silentCheckpoints}\n` +
         `maxCheckpoints: ${settings.maxCheckpoints}\n` +
@@ -2254,8 +5184,20 @@ export class PiJjRuntime {
         `promptForPublishMode: ${settings.promptForPublishMode}\n` +
         `autoSyncOnPublish: ${settings.autoSyncOnPublish}\n` +
         `restoreMode: ${settings.restoreMode}\n` +
+        `checkpointMode: ${settings.checkpointMode}\n` +
+        `isolatedTurns: ${settings.isolatedTurns}\n` +
+        `anchorCheckpointRefs: ${settings.anchorCheckpointRefs}\n` +
+        `retentionKeepAllHours: ${settings.retentionKeepAllHours}\n` +
+        `retentionHourlyDays: ${settings.retentionHourlyDays}\n` +
+        `retentionKeepPromptPattern: ${settings.retentionKeepPromptPattern || "-"}\n` +
+        `toolSnapshots: ${settings.toolSnapshots}\n` +
+        `toolSnapshotTools: ${settings.toolSnapshotTools.join(", ") || "-"}\n` +
+        `toolSnapshotBashPatterns: ${settings.toolSnapshotBashPatterns.length} pattern(s)\n` +
+        `commandPolicy: ${settings.commandPolicy} (${settings.commandPolicyRules.length} custom rule(s))\n` +
+        `injectJjContext: ${settings.injectJjContext} (max ${settings.jjContextMaxChars} chars)\n` +
+        `allowHeadlessAgentRestore: ${settings.allowHeadlessAgentRestore}\n` +
         `file: ${this.settingsStore.settingsFile}`,
-      "info",
+      { settings, file: this.settingsStore.settingsFile },
     );
   }
 
@@ -2275,6 +5217,8 @@ export class PiJjRuntime {
     this.isGitRepo = true;
 
     this.rebuildCheckpointsFromSession(ctx);
+    this.rebuildRewindHistoryFromSession(ctx);
+    await this.validateCheckpoints().catch(() => this.checkpointValidity.clear());
 
     try {
       const op = await this.currentOperationInfo();
@@ -0,0 +1,204 @@
+// TypeBox comes through pi-ai so its types are the ones pi's tool definitions are written against.
+import { StringEnum, Type, type Static, type TSchema } from "@mariozechner/pi-ai";
+import { QUERY_DEFAULT_LIMIT, QUERY_MAX_LIMIT } from "./types";
+
+// Slash commands split their args on whitespace, so values passed through them must stay a single token.
+const TOKEN_PATTERN = "^\\S+$";
+
+const queue = Type.Optional(
+  Type.Boolean({ description: "Queue a slash command follow-up instead of executing now (default false)" }),
+);
+const remote = Type.Optional(Type.String({ pattern: TOKEN_PATTERN, description: "Git remote name (e.g. origin)" }));
+const plain = (defaultValue: boolean) =>
+  Type.Optional(
+    Type.Boolean({ description: `Text output instead of an interactive picker (default ${defaultValue})` }),
+  );
+const entries = (description: string) =>
+  Type.Optional(Type.Array(Type.String({ pattern: TOKEN_PATTERN }), { description }));
+const diffFields = {
+  entries: entries("Up to two checkpoint entry IDs (or unique prefixes); default the latest checkpoint"),
+  stat: Type.Optional(Type.Boolean({ description: "Diffstat instead of the full diff" })),
+  queue,
+};
+
+function flowAction<A extends string, P extends Record<string, TSchema>>(action: A, description: string, properties: P) {
+  return Type.Object({ action: Type.Literal(action, { description }), ...properties }, { additionalProperties: false });
+}
+
+export const FLOW_VARIANTS = [
+  flowAction("status", "Current revision/change/op, stack and PR state (/jj-stack-status)", { plain: plain(false), queue }),
+  flowAction("checkpoints", "List checkpoints, newest first (/jj-checkpoints)", {
+    plain: plain(true),
+    changedOnly: Type.Optional(Type.Boolean({ description: "Hide checkpoints whose turn changed no files" })),
+    queue,
+  }),
+  flowAction("checkpoints-diff", "Diff checkpoints against @ or each other (/jj-checkpoints diff)", diffFields),
+  flowAction("checkpoints-turn-diff", "Show what a checkpoint's turn changed (/jj-checkpoints turn-diff)", diffFields),
+  flowAction("checkpoints-find", "Search checkpoints (/jj-checkpoints find)", {
+    query: Type.Optional(Type.String({ description: "Text matched against prompts, changed paths and IDs" })),
+    since: Type.Optional(
+      Type.String({ pattern: TOKEN_PATTERN, description: "Only checkpoints newer than this age (e.g. 30m, 2h, 3d)" }),
+    ),
+    until: Type.Optional(Type.String({ pattern: TOKEN_PATTERN, description: "Only checkpoints older than this age" })),
+    plain: plain(true),
+    queue,
+  }),
+  flowAction("checkpoints-verify", "Report valid / revision-only / dead checkpoints (/jj-checkpoints verify)", {
+    hideDead: Type.Optional(Type.Boolean({ description: "Hide checkpoints that can no longer be restored" })),
+    queue,
+  }),
+  flowAction("checkpoints-all", "Checkpoints from every session in this repo (/jj-checkpoints all)", {
+    plain: plain(true),
+    queue,
+  }),
+  flowAction("checkpoints-export", "Export checkpoints to a bundle file (/jj-checkpoints export)", {
+    file: Type.String({ pattern: TOKEN_PATTERN, description: "Bundle file path" }),
+    entries: entries("Checkpoint entry IDs (or unique prefixes) to export; default all"),
+    queue,
+  }),
+  flowAction("checkpoints-import", "Import a checkpoint bundle (/jj-checkpoints import)", {
+    file: Type.String({ pattern: TOKEN_PATTERN, description: "Bundle file path" }),
+    queue,
+  }),
+  flowAction("checkpoints-compact", "Apply retention to the checkpoint index (/jj-checkpoints compact)", { queue }),
+  flowAction("bisect", "Find the first checkpoint where a command fails (/jj-checkpoints bisect)", {
+    command: Type.String({ minLength: 1, description: "Shell command run at each checkpoint (exit code 0 = pass)" }),
+    queue,
+  }),
+  flowAction("restore", "Ask the user to restore a checkpoint; give entry or turnsAgo", {
+    entry: Type.Optional(Type.String({ description: "Checkpoint entry ID (or unique prefix) to restore to" })),
+    turnsAgo: Type.Optional(
+      Type.Integer({
+        minimum: 1,
+        description: "Restore to before the Nth most recent checkpointed turn of this session (1 = undo the latest turn)",
+      }),
+    ),
+    reason: Type.Optional(Type.String({ description: "Why the restore is needed, shown to the user" })),
+  }),
+  flowAction("init", "Initialize jj in this git repo (/jj-init)", { queue }),
+  flowAction("plan", "Preview the stacked PR publish plan (/jj-pr-plan)", { remote, plain: plain(false), queue }),
+  flowAction("publish", "Publish/update stacked PRs (/jj-pr-publish)", {
+    remote,
+    dryRun: Type.Optional(Type.Boolean({ description: "Preview only; default true if omitted" })),
+    draft: Type.Optional(Type.Boolean({ description: "Create draft PRs" })),
+    queue,
+  }),
+  flowAction("sync", "Sync PR state from GitHub and retarget merged bases (/jj-pr-sync)", { remote, queue }),
+  flowAction("close", "Close a completed stack (/jj-stack-close)", {
+    remote,
+    dryRun: Type.Optional(Type.Boolean({ description: "Preview only (default false)" })),
+    keepBookmarks: Type.Optional(Type.Boolean({ description: "Keep the stack's push-* bookmarks" })),
+    noNewChange: Type.Optional(Type.Boolean({ description: "Don't create a fresh change on the default branch" })),
+    force: Type.Optional(Type.Boolean({ description: "Close even if PRs are still open" })),
+    queue,
+  }),
+  flowAction("settings", "Show extension settings (/jj-settings)", { queue }),
+  flowAction("settings-reload", "Reload extension settings (/jj-settings reload)", { queue }),
+] as const;
+
+export type JjFlowToolInput = Static<(typeof FLOW_VARIANTS)[number]>;
+export type JjFlowAction = JjFlowToolInput["action"];
+
+export const FLOW_ACTIONS = FLOW_VARIANTS.map((variant) => variant.properties.action.const) as JjFlowAction[];
+
+// Some providers (Anthropic) only forward the top-level `properties` of a tool schema, so the union also
+// carries a flattened view of every field; the `anyOf` variants are what actually gets validated.
+function flattenedView(variants: ReadonlyArray<{ properties: Record<string, TSchema> }>) {
+  const properties: Record<string, TSchema> = {
+    action: StringEnum(FLOW_ACTIONS, { description: `One of: ${FLOW_ACTIONS.join(", ")}` }),
+  };
+  const byField = new Map<string, Map<string, { schema: TSchema; actions: string[] }>>();
+  for (const variant of variants) {
+    const action = variant.properties.action!.const as string;
+    for (const [key, schema] of Object.entries(variant.properties)) {
+      if (key === "action") continue;
+      const byDescription = byField.get(key) ?? new Map<string, { schema: TSchema; actions: string[] }>();
+      const group = byDescription.get(schema.description ?? "") ?? { schema, actions: [] };
+      group.actions.push(action);
+      byDescription.set(schema.description ?? "", group);
+      byField.set(key, byDescription);
+    }
+  }
+  for (const [key, byDescription] of byField) {
+    const groups = [...byDescription.values()];
+    const description = groups
+      .map((group) => `For action=${group.actions.join(", ")}: ${group.schema.description ?? ""}`.trim())
+      .join(". ");
+    properties[key] = { ...groups[0]!.schema, description };
+  }
+  return { type: "object", properties, required: ["action"] };
+}
+
+export const JjFlowParams = Type.Union([...FLOW_VARIANTS], flattenedView(FLOW_VARIANTS));
+
+export const QUERY_ACTIONS = ["log", "show", "diff", "op-log", "evolog", "bookmarks", "conflicts"] as const;
+
+export const JjQueryParams = Type.Object(
+  {
+    action: StringEnum(QUERY_ACTIONS, { description: `One of: ${QUERY_ACTIONS.join(", ")}` }),
+    revset: Type.Optional(
+      Type.String({
+        description:
+          "For action=log (default: the current mutable stack), bookmarks (only bookmarks pointing into it) and conflicts (changes to list, default conflicts() & mutable())",
+      }),
+    ),
+    revision: Type.Optional(Type.String({ description: "For action=show, diff, evolog, conflicts; default @" })),
+    from: Type.Optional(
+      Type.String({ description: "For action=diff; diff from this revision (default @-) instead of a single revision" }),
+    ),
+    to: Type.Optional(Type.String({ description: "For action=diff; diff to this revision (default @)" })),
+    paths: Type.Optional(Type.Array(Type.String(), { description: "For action=diff, show; limit to these paths" })),
+    format: Type.Optional(
+      StringEnum(["summary", "stat", "git"] as const, {
+        description: "For action=diff; summary lists changed files only (default git)",
+      }),
+    ),
+    limit: Type.Optional(
+      Type.Integer({
+        minimum: 1,
+        maximum: QUERY_MAX_LIMIT,
+        description: `Maximum entries for log, op-log, evolog, bookmarks, conflicts (default ${QUERY_DEFAULT_LIMIT}, max ${QUERY_MAX_LIMIT})`,
+      }),
+    ),
+    allRemotes: Type.Optional(Type.Boolean({ description: "For action=bookmarks; include remote bookmarks" })),
+    ignoreWorkingCopy: Type.Optional(
+      Type.Boolean({ description: "Default true: do not snapshot the working copy (results reflect the last snapshot)" }),
+    ),
+  },
+  { additionalProperties: false },
+);
+
+export type JjQueryInput = Static<typeof JjQueryParams>;
+export type JjQueryAction = JjQueryInput["action"];
+
+export const EDIT_ACTIONS = ["describe", "new", "squash", "split", "abandon", "rebase"] as const;
+
+export const JjEditParams = Type.Object(
+  {
+    action: StringEnum(EDIT_ACTIONS, { description: `One of: ${EDIT_ACTIONS.join(", ")}` }),
+    revision: Type.Optional(
+      Type.String({
+        description:
+          "Change to act on (default @); must be a mutable change in the current stack. For new: the parent of the new change",
+      }),
+    ),
+    message: Type.Optional(
+      Type.String({
+        description:
+          "For describe (required), new, split (first change; defaults to the current description) and squash (defaults to the destination's message)",
+      }),
+    ),
+    into: Type.Optional(Type.String({ description: "For squash; destination change (default: the parent of revision)" })),
+    destination: Type.Optional(
+      Type.String({ description: "For rebase (required); new parent, in the current stack or its base" }),
+    ),
+    paths: Type.Optional(Type.Array(Type.String(), { description: "For split (required) and squash; paths to move" })),
+    withDescendants: Type.Optional(
+      Type.Boolean({ description: "For rebase; move descendants along with the change (default true)" }),
+    ),
+  },
+  { additionalProperties: false },
+);
+
+export type JjEditInput = Static<typeof JjEditParams>;
+export type JjEditAction = JjEditInput["action"];
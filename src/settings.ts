@@ -5,6 +5,8 @@ import {
   DEFAULT_CHECKPOINT_LIST_LIMIT,
   DEFAULT_MAX_CHECKPOINTS,
   DEFAULT_SETTINGS,
+  type CheckpointMode,
+  type CommandPolicyRule,
   type PiJjSettings,
   type RestoreMode,
 } from "./types";
@@ -15,6 +17,21 @@ function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
 
+function policyRules(value: unknown): CommandPolicyRule[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item) => {
+    const rule = item as Record<string, unknown> | null;
+    if (typeof rule?.pattern !== "string" || !rule.pattern) return [];
+    if (rule.action !== "allow" && rule.action !== "deny" && rule.action !== "confirm") return [];
+    return [{ pattern: rule.pattern, action: rule.action, reason: typeof rule.reason === "string" ? rule.reason : undefined }];
+  });
+}
+
+function stringList(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  return value.filter((item): item is string => typeof item === "string" && item.trim() !== "");
+}
+
 export function createSettingsStore(settingsFile = SETTINGS_FILE) {
   let cachedSettings: PiJjSettings | null = null;
 
@@ -30,6 +47,8 @@ export function createSettingsStore(settingsFile = SETTINGS_FILE) {
       const promptForInit = fromNamed?.promptForInit !== false;
       const promptForPublishMode = fromNamed?.promptForPublishMode !== false;
       const autoSyncOnPublish = fromNamed?.autoSyncOnPublish !== false;
+      const isolatedTurns = fromNamed?.isolatedTurns === true;
+      const anchorCheckpointRefs = fromNamed?.anchorCheckpointRefs === true;
 
       const maxCandidate = Number(fromNamed?.maxCheckpoints);
       const maxCheckpoints = Number.isFinite(maxCandidate)
@@ -44,6 +63,38 @@ export function createSettingsStore(settingsFile = SETTINGS_FILE) {
       const rawRestoreMode = String(fromNamed?.restoreMode ?? "").toLowerCase();
       const restoreMode: RestoreMode = rawRestoreMode === "operation" ? "operation" : "file";
 
+      const keepAllCandidate = Number(fromNamed?.retentionKeepAllHours);
+      const retentionKeepAllHours = Number.isFinite(keepAllCandidate)
+        ? clamp(keepAllCandidate, 0, 24 * 365)
+        : DEFAULT_SETTINGS.retentionKeepAllHours;
+
+      const hourlyCandidate = Number(fromNamed?.retentionHourlyDays);
+      const retentionHourlyDays = Number.isFinite(hourlyCandidate)
+        ? clamp(hourlyCandidate, 0, 365)
+        : DEFAULT_SETTINGS.retentionHourlyDays;
+
+      const retentionKeepPromptPattern =
+        typeof fromNamed?.retentionKeepPromptPattern === "string" ? fromNamed.retentionKeepPromptPattern : "";
+
+      const toolSnapshots = fromNamed?.toolSnapshots === true;
+      const toolSnapshotTools = stringList(fromNamed?.toolSnapshotTools) ?? DEFAULT_SETTINGS.toolSnapshotTools;
+      const toolSnapshotBashPatterns =
+        stringList(fromNamed?.toolSnapshotBashPatterns) ?? DEFAULT_SETTINGS.toolSnapshotBashPatterns;
+
+      const commandPolicy = fromNamed?.commandPolicy !== false;
+      const commandPolicyRules = policyRules(fromNamed?.commandPolicyRules);
+
+      const injectJjContext = fromNamed?.injectJjContext !== false;
+      const contextCandidate = Number(fromNamed?.jjContextMaxChars);
+      const jjContextMaxChars = Number.isFinite(contextCandidate)
+        ? clamp(Math.floor(contextCandidate), 300, 20000)
+        : DEFAULT_SETTINGS.jjContextMaxChars;
+
+      const allowHeadlessAgentRestore = fromNamed?.allowHeadlessAgentRestore === true;
+
+      const rawCheckpointMode = String(fromNamed?.checkpointMode ?? "").toLowerCase();
+      const checkpointMode: CheckpointMode = rawCheckpointMode === "turn" ? "turn" : "prompt";
+
       cachedSettings = {
         silentCheckpoints,
         maxCheckpoints,
@@ -52,6 +103,20 @@ export function createSettingsStore(settingsFile = SETTINGS_FILE) {
         promptForPublishMode,
         autoSyncOnPublish,
         restoreMode,
+        checkpointMode,
+        isolatedTurns,
+        anchorCheckpointRefs,
+        retentionKeepAllHours,
+        retentionHourlyDays,
+        retentionKeepPromptPattern,
+        toolSnapshots,
+        toolSnapshotTools,
+        toolSnapshotBashPatterns,
+        commandPolicy,
+        commandPolicyRules,
+        injectJjContext,
+        jjContextMaxChars,
+        allowHeadlessAgentRestore,
       };
       return cachedSettings;
     } catch {
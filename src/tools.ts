@@ -1,14 +1,23 @@
 import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
-import type { PiJjRuntime } from "./runtime";
+import { createJjQuery } from "./query";
+import type { CommandResult, PiJjRuntime } from "./runtime";
+import {
+  EDIT_ACTIONS,
+  FLOW_ACTIONS,
+  FLOW_VARIANTS,
+  JjEditParams,
+  JjFlowParams,
+  JjQueryParams,
+  QUERY_ACTIONS,
+  type JjEditAction,
+  type JjEditInput,
+  type JjFlowToolInput,
+  type JjQueryAction,
+  type JjQueryInput,
+} from "./schemas";
+import type { JjQueryResult } from "./types";
 
-type JjToolInput = {
-  action: string;
-  remote?: string;
-  dryRun?: boolean;
-  draft?: boolean;
-  queue?: boolean;
-  args?: string;
-};
+type FlowCommandInput = Exclude<JjFlowToolInput, { action: "restore" }>;
 
 function safeTrim(value?: string): string {
   return (value ?? "").trim();
@@ -25,150 +34,202 @@ function formatCommand(name: string, args: string): string {
   return args ? `${name} ${args}` : name;
 }
 
-async function executeAction(runtime: PiJjRuntime, action: string, args: string, ctx: ExtensionContext): Promise<string> {
-  if (action === "status") {
-    await runtime.commandJjStackStatus(args, ctx);
-    return formatCommand("/jj-stack-status", args);
+// Checks the call against its action's schema variant, so errors name the action's own fields. Field types
+// are already enforced by pi, which validates every call against the full union before execute runs.
+function validateFlowInput(params: Record<string, unknown>): { input: JjFlowToolInput } | { error: string } {
+  const action = safeTrim(typeof params.action === "string" ? params.action : "").toLowerCase();
+  const variant = FLOW_VARIANTS.find((candidate) => candidate.properties.action.const === action);
+  if (!variant) {
+    return { error: `Unsupported action. Use one of: ${FLOW_ACTIONS.join(", ")}.` };
   }
-  if (action === "checkpoints") {
-    const commandArgs = args || "plain";
-    await runtime.commandJjCheckpoints(commandArgs, ctx);
-    return formatCommand("/jj-checkpoints", commandArgs);
-  }
-  if (action === "init") {
-    await runtime.commandJjInit(args, ctx);
-    return formatCommand("/jj-init", args);
-  }
-  if (action === "plan") {
-    await runtime.commandJjPrPlan(args, ctx);
-    return formatCommand("/jj-pr-plan", args);
-  }
-  if (action === "publish") {
-    await runtime.commandJjPrPublish(args, ctx);
-    return formatCommand("/jj-pr-publish", args);
-  }
-  if (action === "sync") {
-    await runtime.commandJjPrSync(args, ctx);
-    return formatCommand("/jj-pr-sync", args);
-  }
-  if (action === "close") {
-    await runtime.commandJjStackClose(args, ctx);
-    return formatCommand("/jj-stack-close", args);
+
+  const allowed = Object.keys(variant.properties).filter((key) => key !== "action");
+  const allowedText = `Allowed fields for action=${action}: ${allowed.length > 0 ? allowed.join(", ") : "none"}.`;
+  if ("args" in params) {
+    return { error: `Raw args are not accepted; pass each option as its own field. ${allowedText}` };
   }
-  if (action === "settings") {
-    await runtime.commandJjSettings(args, ctx);
-    return formatCommand("/jj-settings", args);
+
+  const problems = [
+    ...Object.keys(params)
+      .filter((key) => key !== "action" && !allowed.includes(key))
+      .map((key) => `${key}: not a field of this action`),
+    ...(variant.required ?? [])
+      .filter((key) => params[key] === undefined)
+      .map((key) => `${key}: required`),
+  ];
+  if (problems.length > 0) {
+    return { error: `Invalid input for action=${action}: ${problems.join("; ")}. ${allowedText}` };
   }
-  if (action === "settings-reload") {
-    const commandArgs = args || "reload";
-    await runtime.commandJjSettings(commandArgs, ctx);
-    return formatCommand("/jj-settings", commandArgs);
+
+  return { input: { ...params, action } as JjFlowToolInput };
+}
+
+function buildFlowCommand(input: FlowCommandInput): { name: string; args: string; note: string } {
+  const remoteArg = "remote" in input && safeTrim(input.remote) ? `--remote ${safeTrim(input.remote)}` : "";
+
+  switch (input.action) {
+    case "status":
+      return { name: "/jj-stack-status", args: input.plain ? "plain" : "", note: "" };
+    case "checkpoints":
+      return {
+        name: "/jj-checkpoints",
+        args: buildArgs([input.plain === false ? "" : "plain", input.changedOnly ? "--changed" : ""]),
+        note: "",
+      };
+    case "checkpoints-diff":
+    case "checkpoints-turn-diff":
+      return {
+        name: "/jj-checkpoints",
+        args: buildArgs([
+          input.action === "checkpoints-diff" ? "diff" : "turn-diff",
+          ...(input.entries ?? []),
+          input.stat ? "--stat" : "",
+        ]),
+        note: "",
+      };
+    case "checkpoints-find":
+      return {
+        name: "/jj-checkpoints",
+        args: buildArgs([
+          "find",
+          input.query,
+          safeTrim(input.since) ? `--since ${safeTrim(input.since)}` : "",
+          safeTrim(input.until) ? `--until ${safeTrim(input.until)}` : "",
+          input.plain === false ? "" : "plain",
+        ]),
+        note: "",
+      };
+    case "checkpoints-verify":
+      return { name: "/jj-checkpoints", args: buildArgs(["verify", input.hideDead ? "--hide-dead" : ""]), note: "" };
+    case "checkpoints-all":
+      return { name: "/jj-checkpoints", args: buildArgs(["all", input.plain === false ? "" : "plain"]), note: "" };
+    case "checkpoints-export":
+      return { name: "/jj-checkpoints", args: buildArgs(["export", input.file, ...(input.entries ?? [])]), note: "" };
+    case "checkpoints-import":
+      return { name: "/jj-checkpoints", args: buildArgs(["import", input.file]), note: "" };
+    case "checkpoints-compact":
+      return { name: "/jj-checkpoints", args: "compact", note: "" };
+    case "bisect":
+      return { name: "/jj-checkpoints", args: buildArgs(["bisect", input.command]), note: "" };
+    case "init":
+      return { name: "/jj-init", args: "", note: "" };
+    case "plan":
+      return { name: "/jj-pr-plan", args: buildArgs([remoteArg, input.plain ? "plain" : ""]), note: "" };
+    case "publish": {
+      const dryRun = input.dryRun ?? true;
+      return {
+        name: "/jj-pr-publish",
+        args: buildArgs([dryRun ? "--dry-run" : "", input.draft ? "--draft" : "", remoteArg]),
+        note: input.dryRun === undefined ? "safe default applied: --dry-run" : "",
+      };
+    }
+    case "sync":
+      return { name: "/jj-pr-sync", args: remoteArg, note: "" };
+    case "close":
+      return {
+        name: "/jj-stack-close",
+        args: buildArgs([
+          input.dryRun ? "--dry-run" : "",
+          input.keepBookmarks ? "--keep-bookmarks" : "",
+          input.noNewChange ? "--no-new-change" : "",
+          input.force ? "--force" : "",
+          remoteArg,
+        ]),
+        note: "",
+      };
+    case "settings":
+      return { name: "/jj-settings", args: "", note: "" };
+    case "settings-reload":
+      return { name: "/jj-settings", args: "reload", note: "" };
   }
+}
+
+async function executeCommand(
+  runtime: PiJjRuntime,
+  name: string,
+  args: string,
+  ctx: ExtensionContext,
+): Promise<CommandResult<unknown>> {
+  if (name === "/jj-stack-status") return runtime.commandJjStackStatus(args, ctx);
+  if (name === "/jj-checkpoints") return runtime.commandJjCheckpoints(args, ctx);
+  if (name === "/jj-init") return runtime.commandJjInit(args, ctx);
+  if (name === "/jj-pr-plan") return runtime.commandJjPrPlan(args, ctx);
+  if (name === "/jj-pr-publish") return runtime.commandJjPrPublish(args, ctx);
+  if (name === "/jj-pr-sync") return runtime.commandJjPrSync(args, ctx);
+  if (name === "/jj-stack-close") return runtime.commandJjStackClose(args, ctx);
+  if (name === "/jj-settings") return runtime.commandJjSettings(args, ctx);
 
-  throw new Error(`Unsupported action: ${action}`);
+  throw new Error(`Unsupported command: ${name}`);
 }
 
 export function registerTools(pi: ExtensionAPI, runtime: PiJjRuntime) {
-  const supportedActions = ["status", "checkpoints", "init", "plan", "publish", "sync", "close", "settings", "settings-reload"];
-
   pi.registerTool({
     name: "jj_stack_pr_flow",
     label: "JJ Stack PR Flow",
     description:
-      "Run pi-jj stack commands directly for status, planning, publish (dry-run by default), sync, and stack closeout. Set queue=true only if you explicitly want follow-up command queuing.",
-    parameters: {
-      type: "object",
-      properties: {
-        action: {
-          type: "string",
-          description: "One of: status, checkpoints, init, plan, publish, sync, close, settings, settings-reload",
-        },
-        remote: { type: "string", description: "Git remote name (e.g. origin)" },
-        dryRun: { type: "boolean", description: "For action=publish; default true if omitted" },
-        draft: { type: "boolean", description: "For action=publish; create draft PRs" },
-        queue: {
-          type: "boolean",
-          description: "If true, queue a slash command follow-up instead of executing now (default false)",
-        },
-        args: { type: "string", description: "Additional raw args appended to the command" },
-      },
-      required: ["action"],
-      additionalProperties: false,
-    } as any,
+      "Run pi-jj stack commands directly for status, planning, publish (dry-run by default), sync, and stack closeout. Use action=checkpoints (and the checkpoints-* actions) to list, diff, search, verify, export or import checkpoints, and action=restore with entry or turnsAgo to ask the user to roll back a turn that went wrong. Use action=bisect with a shell command to find the first checkpoint where it fails. Each action accepts only its own fields; there is no raw args field. Results come back as text plus structured JSON in details.result (stack snapshot, plan entries, PR records, sync retargets, close summary). Set queue=true only if you explicitly want follow-up command queuing.",
+    parameters: JjFlowParams,
     async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
-      const input = (params ?? {}) as JjToolInput;
-      const action = safeTrim(input.action).toLowerCase();
-      const remote = safeTrim(input.remote);
-      const extraArgs = safeTrim(input.args);
+      const raw = (params ?? {}) as Record<string, unknown>;
+      const validated = validateFlowInput(raw);
+      const action = "input" in validated ? validated.input.action : safeTrim(String(raw.action ?? "")).toLowerCase();
 
       const detailsBase = {
-        supportedActions,
+        supportedActions: FLOW_ACTIONS,
         action,
         command: "",
         note: "",
-        mode: input.queue ? "queue" : "execute",
+        mode: raw.queue === true ? "queue" : "execute",
         ok: false,
+        result: null as unknown,
       };
 
-      if (!supportedActions.includes(action)) {
+      if ("error" in validated) {
         return {
-          content: [
-            {
-              type: "text",
-              text: `Unsupported action. Use one of: ${supportedActions.join(", ")}.`,
-            },
-          ],
+          content: [{ type: "text", text: validated.error }],
           details: {
             ...detailsBase,
-            note: "unsupported action",
+            note: validated.error,
           },
         };
       }
 
-      let args = "";
-      let note = "";
-
-      if (action === "publish") {
-        const dryRun = input.dryRun ?? true;
-        const draft = input.draft ?? false;
-        args = buildArgs([
-          dryRun ? "--dry-run" : "",
-          draft ? "--draft" : "",
-          remote ? `--remote ${remote}` : "",
-          extraArgs,
-        ]);
-        if (input.dryRun === undefined) {
-          note = "safe default applied: --dry-run";
+      const input = validated.input;
+
+      // Restores act on the agent's request directly; the runtime asks the user before touching anything.
+      if (input.action === "restore") {
+        try {
+          const result = await runtime.runForTool(() =>
+            runtime.agentRestoreCheckpoint(
+              {
+                entry: safeTrim(input.entry) || undefined,
+                turnsAgo: input.turnsAgo,
+                reason: safeTrim(input.reason) || undefined,
+              },
+              ctx,
+            ),
+          );
+          return {
+            content: [{ type: "text", text: result.message }],
+            details: {
+              ...detailsBase,
+              ok: result.ok,
+              result: result.data ?? null,
+            },
+          };
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: `Failed to restore checkpoint: ${String(error)}` }],
+            details: {
+              ...detailsBase,
+              note: String(error),
+            },
+          };
         }
-      } else if (action === "plan" || action === "sync" || action === "close") {
-        args = buildArgs([remote ? `--remote ${remote}` : "", extraArgs]);
-      } else if (action === "status" || action === "init") {
-        args = buildArgs([extraArgs]);
-      } else if (action === "checkpoints") {
-        args = buildArgs([extraArgs || "plain"]);
-      } else if (action === "settings") {
-        args = buildArgs([extraArgs]);
-      } else if (action === "settings-reload") {
-        args = buildArgs([extraArgs || "reload"]);
       }
 
-      const commandName =
-        action === "status"
-          ? "/jj-stack-status"
-          : action === "checkpoints"
-            ? "/jj-checkpoints"
-            : action === "init"
-              ? "/jj-init"
-              : action === "plan"
-                ? "/jj-pr-plan"
-                : action === "publish"
-                  ? "/jj-pr-publish"
-                  : action === "sync"
-                    ? "/jj-pr-sync"
-                    : action === "close"
-                      ? "/jj-stack-close"
-                      : "/jj-settings";
-      const command = formatCommand(commandName, args);
+      const { name, args, note } = buildFlowCommand(input);
+      const command = formatCommand(name, args);
 
       if (input.queue) {
         pi.sendUserMessage(command, { deliverAs: "followUp" });
@@ -184,14 +245,16 @@ export function registerTools(pi: ExtensionAPI, runtime: PiJjRuntime) {
       }
 
       try {
-        const executedCommand = await executeAction(runtime, action, args, ctx);
+        const result = await runtime.runForTool(() => executeCommand(runtime, name, args, ctx));
+        const header = `Executed ${command}${note ? ` (${note})` : ""}.`;
         return {
-          content: [{ type: "text", text: `Executed ${executedCommand}${note ? ` (${note})` : ""}.` }],
+          content: [{ type: "text", text: result.message ? `${header}\n\n${result.message}` : header }],
           details: {
             ...detailsBase,
-            command: executedCommand,
+            command,
             note,
-            ok: true,
+            ok: result.ok,
+            result: result.data ?? null,
           },
         };
       } catch (error) {
@@ -207,4 +270,86 @@ export function registerTools(pi: ExtensionAPI, runtime: PiJjRuntime) {
       }
     },
   });
+
+  const query = createJjQuery(pi);
+
+  pi.registerTool({
+    name: "jj_query",
+    label: "JJ Query",
+    description:
+      "Read-only jj inspection that returns structured JSON: log over a revset, show a change, diff between revisions, op-log, evolog, bookmarks and conflicts. Prefer this over running jj in bash. Runs with --ignore-working-copy unless ignoreWorkingCopy=false (jj then snapshots the working copy first, so recent file edits are included). Lists are capped by limit (default 20, max 200) and diff output at 20000 characters; truncated=true marks capped results.",
+    parameters: JjQueryParams,
+    async execute(_toolCallId, params) {
+      const input: JjQueryInput = params;
+      const action = safeTrim(input.action).toLowerCase() as JjQueryAction;
+
+      if (!(QUERY_ACTIONS as readonly string[]).includes(action)) {
+        return {
+          content: [{ type: "text", text: `Unsupported action. Use one of: ${QUERY_ACTIONS.join(", ")}.` }],
+          details: { action, ok: false, error: "unsupported action", result: null as JjQueryResult | null },
+        };
+      }
+
+      try {
+        const result = await query.run({
+          ...input,
+          action,
+          paths: Array.isArray(input.paths) ? input.paths.filter((path) => typeof path === "string" && path.trim() !== "") : undefined,
+        });
+        return {
+          content: [{ type: "text", text: JSON.stringify(result) }],
+          details: { action, ok: true, error: "", result },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `jj_query ${action} failed: ${String(error)}` }],
+          details: { action, ok: false, error: String(error), result: null },
+        };
+      }
+    },
+  });
+
+  pi.registerTool({
+    name: "jj_edit",
+    label: "JJ Edit",
+    description:
+      "Reshape jj history within the current stack without raw jj commands: describe, new, squash (into parent or another change, optionally only some paths), split (given paths go into the first change), abandon, rebase (with descendants by default). Each action records the jj operation it started from, so the user can revert it with /jj-undo. squash, abandon and rebase ask the user to confirm when a UI is available. Returns the resulting stack.",
+    parameters: JjEditParams,
+    async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+      const input: JjEditInput = params;
+      const action = safeTrim(input.action).toLowerCase() as JjEditAction;
+
+      if (!(EDIT_ACTIONS as readonly string[]).includes(action)) {
+        return {
+          content: [{ type: "text", text: `Unsupported action. Use one of: ${EDIT_ACTIONS.join(", ")}.` }],
+          details: { action, ok: false, result: null as unknown },
+        };
+      }
+
+      try {
+        const result = await runtime.runForTool(() =>
+          runtime.jjEdit(
+            {
+              ...input,
+              action,
+              revision: safeTrim(input.revision) || undefined,
+              into: safeTrim(input.into) || undefined,
+              destination: safeTrim(input.destination) || undefined,
+              paths: Array.isArray(input.paths) ? input.paths.filter((path) => typeof path === "string") : undefined,
+            },
+            ctx,
+          ),
+        );
+        return {
+          content: [{ type: "text", text: result.message }],
+          details: { action, ok: result.ok, result: result.data ?? null },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `jj_edit ${action} failed: ${String(error)}` }],
+          details: { action, ok: false, result: null },
+        };
+      }
+    },
+  });
 }
@@ -1,8 +1,27 @@
+import type { JjQueryAction } from "./schemas";
+
 export const STATUS_KEY = "pi-jj";
 export const CHECKPOINT_ENTRY_TYPE = "jj-checkpoint";
+export const CHECKPOINT_PIN_ENTRY_TYPE = "jj-checkpoint-pin";
+export const CHECKPOINT_HIDDEN_ENTRY_TYPE = "jj-checkpoint-hidden";
+export const CHECKPOINT_INDEX_ENTRY_TYPE = "jj-checkpoint-index";
+export const TOOL_SNAPSHOT_ENTRY_TYPE = "jj-tool-snapshot";
+export const POLICY_DECISION_ENTRY_TYPE = "jj-policy-decision";
 export const PR_STATE_ENTRY_TYPE = "jj-pr-state";
+export const REWIND_ENTRY_TYPE = "jj-rewind";
+export const TURN_REVERT_ENTRY_TYPE = "jj-turn-revert";
+export const CHECKPOINT_REF_PREFIX = "refs/pi-jj/checkpoints/";
+export const CHECKPOINT_BUNDLE_FORMAT = "pi-jj-checkpoint-bundle";
+export const CHECKPOINT_EXPORT_REF_PREFIX = "refs/pi-jj/export/";
+export const CHECKPOINT_IMPORT_BOOKMARK_PREFIX = "pi-jj-import/";
+export const REPO_CHECKPOINT_INDEX_FILE = "pi-jj-checkpoints.jsonl";
 export const DEFAULT_MAX_CHECKPOINTS = 200;
 export const DEFAULT_CHECKPOINT_LIST_LIMIT = 30;
+export const MAX_DIFF_LINES = 400;
+export const BISECT_COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+export const QUERY_DEFAULT_LIMIT = 20;
+export const QUERY_MAX_LIMIT = 200;
+export const QUERY_MAX_OUTPUT_CHARS = 20_000;
 
 export type Checkpoint = {
   entryId: string;
@@ -14,19 +33,173 @@ export type Checkpoint = {
   operationIdShort?: string;
   postOperationId?: string;
   postOperationIdShort?: string;
+  postRevision?: string;
+  agentEndRevision?: string;
+  promptEntryId?: string;
+  turnIndex?: number;
+  promptChangeId?: string;
+  promptChangeIdShort?: string;
+  pinned?: boolean;
+  pinName?: string;
+  stats?: CheckpointStats;
+  imported?: CheckpointImportInfo;
+  userEdits?: UserEditsSnapshot;
+  turnUserEdits?: UserEditsSnapshot;
+};
+
+export type ToolSnapshot = {
+  id: string;
+  promptEntryId: string;
+  turnIndex: number;
+  toolCallId: string;
+  toolName: string;
+  summary: string;
+  revision: string;
+  operationId: string;
+  operationIdShort: string;
+  timestamp: number;
+};
+
+export type PolicyAction = "allow" | "deny" | "confirm";
+
+export type CommandPolicyRule = {
+  pattern: string;
+  action: PolicyAction;
+  reason?: string;
+};
+
+export type PolicyDecision = {
+  toolCallId: string;
+  toolName: string;
+  command: string;
+  rule: CommandPolicyRule;
+  outcome: "allowed" | "blocked" | "confirmed" | "declined";
+  timestamp: number;
+};
+
+export type UserEditsSnapshot = {
+  paths: string[];
+  revision: string;
+};
+
+export type CheckpointImportInfo = {
+  bundleId: string;
+  sessionName?: string;
+  promptText?: string;
+  timestamp: number;
+};
+
+export type CheckpointBundle = {
+  format: typeof CHECKPOINT_BUNDLE_FORMAT;
+  version: 1;
+  bundleId: string;
+  exportedAt: number;
+  sessionName?: string;
+  checkpoints: Array<Checkpoint & { promptText?: string; refs: { revision: string; postRevision?: string } }>;
+  gitBundle: string;
+};
+
+export type RepoCheckpointRecord = Checkpoint & {
+  sessionId: string;
+  sessionName?: string;
+  promptText?: string;
+};
+
+export type RepoCheckpointRemoval = {
+  sessionId: string;
+  removedEntryIds: string[];
+  timestamp: number;
+};
+
+export type CheckpointStats = {
+  files: number;
+  added: number;
+  removed: number;
+  conflictsIntroduced: number;
+  conflictsResolved: number;
+};
+
+export type JjLogEntry = {
+  changeId: string;
+  changeIdShort: string;
+  commitId: string;
+  commitIdShort: string;
+  author: { name: string; email: string; timestamp: string };
+  parents: string[];
+  bookmarks: string[];
+  workingCopy: boolean;
+  empty: boolean;
+  immutable: boolean;
+  conflict: boolean;
+  description: string;
+};
+
+export type JjEvologEntry = JjLogEntry & {
+  operationIdShort?: string;
+};
+
+export type JjFileChange = {
+  status: string;
+  path: string;
 };
 
+export type JjOperationEntry = {
+  id: string;
+  idShort: string;
+  time: string;
+  user: string;
+  current: boolean;
+  description: string;
+};
+
+export type JjBookmarkEntry = {
+  name: string;
+  remote?: string;
+  changeIdShort?: string;
+  commitIdShort?: string;
+  conflict: boolean;
+  tracked: boolean;
+};
+
+export type JjQueryResult = { action: JjQueryAction; truncated: boolean } & (
+  | { action: "log"; revset: string; entries: JjLogEntry[] }
+  | { action: "show"; entry: JjLogEntry; fullDescription: string; files: JjFileChange[] }
+  | { action: "diff"; from?: string; to?: string; revision?: string; files: JjFileChange[]; output?: string }
+  | { action: "op-log"; operations: JjOperationEntry[] }
+  | { action: "evolog"; revision: string; entries: JjEvologEntry[] }
+  | { action: "bookmarks"; bookmarks: JjBookmarkEntry[] }
+  | { action: "conflicts"; revision: string; paths: string[]; conflictedChanges: JjLogEntry[] }
+);
+
+export type CheckpointValidity = "valid" | "revision-only" | "dead";
+
 export type PendingCheckpoint = {
   revision: string;
   timestamp: number;
+  turnIndex: number;
   changeId?: string;
   changeIdShort?: string;
   operationId?: string;
   operationIdShort?: string;
+  promptChangeId?: string;
+  promptChangeIdShort?: string;
+  userEdits?: UserEditsSnapshot;
+};
+
+export type RewindRecord = {
+  id: string;
+  label: string;
+  beforeOperationId: string;
+  beforeOperationIdShort: string;
+  afterOperationId: string;
+  afterOperationIdShort: string;
+  timestamp: number;
 };
 
 export type RestoreMode = "file" | "operation";
 
+export type CheckpointMode = "prompt" | "turn";
+
 export type PiJjSettings = {
   silentCheckpoints: boolean;
   maxCheckpoints: number;
@@ -35,6 +208,20 @@ export type PiJjSettings = {
   promptForPublishMode: boolean;
   autoSyncOnPublish: boolean;
   restoreMode: RestoreMode;
+  checkpointMode: CheckpointMode;
+  isolatedTurns: boolean;
+  anchorCheckpointRefs: boolean;
+  retentionKeepAllHours: number;
+  retentionHourlyDays: number;
+  retentionKeepPromptPattern: string;
+  toolSnapshots: boolean;
+  toolSnapshotTools: string[];
+  toolSnapshotBashPatterns: string[];
+  commandPolicy: boolean;
+  commandPolicyRules: CommandPolicyRule[];
+  injectJjContext: boolean;
+  jjContextMaxChars: number;
+  allowHeadlessAgentRestore: boolean;
 };
 
 export const DEFAULT_SETTINGS: PiJjSettings = {
@@ -45,4 +232,27 @@ export const DEFAULT_SETTINGS: PiJjSettings = {
   promptForPublishMode: true,
   autoSyncOnPublish: true,
   restoreMode: "file",
+  checkpointMode: "prompt",
+  isolatedTurns: false,
+  anchorCheckpointRefs: false,
+  retentionKeepAllHours: 0,
+  retentionHourlyDays: 7,
+  retentionKeepPromptPattern: "",
+  toolSnapshots: false,
+  toolSnapshotTools: ["write", "edit"],
+  toolSnapshotBashPatterns: [
+    "\\brm\\s",
+    "\\bmv\\s",
+    "\\bsed\\s+(-[a-zA-Z]*i|--in-place)",
+    "\\bgit\\s+(checkout|reset|clean|restore|stash|apply)\\b",
+    "\\bjj\\s+(restore|abandon|squash|rebase|op\\s+restore)\\b",
+    "\\bfind\\b.*\\s-delete\\b",
+    "\\b(jscodeshift|codemod|comby|prettier\\s+--write|eslint\\s+--fix)\\b",
+    "(^|[^<>&=0-9])>>?\\s*(?!/dev/null\\b)[^&\\s>]",
+  ],
+  commandPolicy: true,
+  commandPolicyRules: [],
+  injectJjContext: true,
+  jjContextMaxChars: 2000,
+  allowHeadlessAgentRestore: false,
 };